@@ -13,7 +13,7 @@ export default [
         languageOptions: {
             parser: tsEslint.parser,
             parserOptions: {
-                project: 'tsconfig.json',
+                project: ['tsconfig.json', 'test/tsconfig.json'],
             },
             globals: {
                 ...globals.node,
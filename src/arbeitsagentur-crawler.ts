@@ -1,193 +1,346 @@
+import type { Checkpoint } from "./checkpoint.js";
+import type { CrawlerPacing } from "./crawler.js";
 import { Crawler } from "./crawler.js";
-import { groupBy } from "./misc/array.js";
-import { findEmailInText } from "./misc/email.js";
-import { waitUntil } from "./misc/flow-control.js";
-import { findPhoneNumberInText } from "./misc/phone.js";
-import { getPostalCodeFromAddress } from "./misc/postal-code.js";
+import { extractJobDetails, extractPostingHeader } from "./job-detail.js";
+import { findMissingElements, LayoutChangedError, saveLayoutSnapshot } from "./layout-canary.js";
 import { exponentialBackoff } from "./misc/request.js";
+import type { Posting } from "./posting.js";
+import { markSeen, takeUnscrapedPostings } from "./posting-batch.js";
+import type { PostingHistory } from "./posting-history.js";
+import type { ProxyRotation } from "./proxy-rotation.js";
+import { postingFromCard, ResultListReader } from "./result-list-reader.js";
+import type { FileSaver } from "./run-environment.js";
+import type { RunStats } from "./run-stats.js";
+import type { SeenStore } from "./seen-store.js";
+import { DETAIL_PAGE, elementId, RESULT_LIST } from "./selectors.js";
+import { WorkerPool } from "./worker-pool.js";
 
-type Posting = {
-    company_name: string;
-    city: string;
-    arbeitsagentur_id: string;
-    start_date: string | null;
-    post_date: string | null;
-    raw_job_title: string | null;
-    postal_code: number | null;
-    street: string | null;
-    email: string | null;
-    phone: string | null;
-    website: string | null;
-    company_size: number | null;
-    from_search_url?: string;
+export const JOB_SEARCH_START_URL = 'https://www.arbeitsagentur.de/jobsuche/';
+
+function detailUrl(id: string) {
+    return `https://www.arbeitsagentur.de/jobsuche/jobdetail/${id}`;
+}
+
+function parseResultCount(heading: string | null | undefined) {
+    // e.g. "1.234 Jobs für ..." or "Keine Ergebnisse"
+    const match = heading?.replace(/\./g, '').match(/\d+/);
+    if (match) return +match[0];
+    return heading ? 0 : null;
 }
 
+export type ArbeitsagenturCrawlerOptions = {
+    seenStore?: SeenStore;
+    onlyNewPostings?: boolean;
+    checkpoint?: Checkpoint;
+    // upper bound when the company crawler pool grows, defaults to twice the initial size
+    maxCompanyCrawlers?: number;
+    // postings waiting for enrichment before the result list stops paging
+    maxDetailBacklog?: number;
+    stats?: RunStats;
+    history?: PostingHistory;
+    // postings for which this returns false are not enriched nor saved
+    keepPosting?: (posting: Posting) => boolean;
+    // serve pages from fixtures saved with `npm run record-fixtures` instead of the network
+    fixtureDirectory?: string;
+    // request rate and budget shared by the result list and all company crawlers
+    pacing?: CrawlerPacing;
+    // every crawler gets a proxy session of its own
+    proxies?: ProxyRotation;
+}
+
+type CompanyWorker = {
+    crawler: Crawler;
+    requestCount: number;
+    close(): Promise<void>;
+};
+
 export class ArbeitsagenturCrawler {
 
-    static async construct(parallelCompanyCrawlers: number): Promise<ArbeitsagenturCrawler> {
-        const jobCrawler = await Crawler.create({ iDontCareAboutCookies: true });
-        const companyCrawlers = await Promise.all(new Array(parallelCompanyCrawlers).fill(0).map(() => Crawler.create({ iDontCareAboutCookies: true })));
-        return new ArbeitsagenturCrawler(jobCrawler, companyCrawlers);
+    static async construct(parallelCompanyCrawlers: number, options: ArbeitsagenturCrawlerOptions = {}): Promise<ArbeitsagenturCrawler> {
+        const { fixtureDirectory, pacing, proxies } = options;
+        const jobCrawler = await Crawler.create({ iDontCareAboutCookies: true, fixtureDirectory, pacing, proxies });
+        jobCrawler.onRestart(event => options.stats?.recordBrowserRestart(event));
+        const crawler = new ArbeitsagenturCrawler(jobCrawler, parallelCompanyCrawlers, options);
+        await crawler.companyPool.start();
+        return crawler;
     }
     
-    private readonly scrapedIds = new Set<string>();
+    private readonly scrapedIds: Set<string>;
     private readonly jobCrawler: Crawler;
-    private readonly companyCrawlers: Crawler[];
+    private readonly companyPool: WorkerPool<Posting, CompanyWorker>;
+    private readonly options: ArbeitsagenturCrawlerOptions;
+    // the search that countResults left open, reading it right after needs no second page load
+    private countedUrl: string | null = null;
 
-    private constructor(jobCrawler: Crawler, companyCrawlers: Crawler[]) {
+    private constructor(jobCrawler: Crawler, parallelCompanyCrawlers: number, options: ArbeitsagenturCrawlerOptions) {
         this.jobCrawler = jobCrawler;
-        this.companyCrawlers = companyCrawlers;
+        this.options = options;
+        // share the set with the checkpoint so a restarted run never pushes a posting twice
+        this.scrapedIds = options.checkpoint?.scrapedIds ?? new Set<string>();
+        const { stats } = options;
+        this.companyPool = new WorkerPool(async () => createCompanyWorker(options), async (worker, posting) => addCompanyData(worker, posting, options), {
+            initialWorkers: parallelCompanyCrawlers,
+            maxWorkers: options.maxCompanyCrawlers ?? parallelCompanyCrawlers * 2,
+            maxBacklog: options.maxDetailBacklog ?? 100,
+            onRetry: posting => {
+                if (stats) stats.search(posting.from_search_url).details_retried++;
+            },
+            onGiveUp: (posting, error) => {
+                Object.assign(posting, { enrichment_status: 'failed', enrichment_error: error instanceof Error ? error.message : String(error) });
+            },
+        });
     }
 
-    async readPostings(url: string, saveCallback: (postings: Posting[]) => Promise<void>) {
-        let finalizePromise: PromiseLike<any> | null = null;
-        let count = 0;
-        let postings: Posting[] = [];
-        let lastCleanup = 0;
-        
-        await this.jobCrawler.goto(url);
-        await Promise.all(this.companyCrawlers.map(crawler => crawler.goto('https://www.arbeitsagentur.de/jobsuche/')));
+    /**
+     * Reads the result list of a search and saves its postings batch by batch once they are enriched. Stops after
+     * `maxPostings` new postings or when the run budget is used up.
+     */
+    async readPostings(url: string, saveCallback: (postings: Posting[]) => Promise<void>, maxPostings = Infinity) {
+        const { checkpoint, pacing } = this.options;
+        const progress = checkpoint?.startSearch(url) ?? { url, postingsRead: 0, pageOffsets: [], pendingPostings: [] };
+        const stats = this.options.stats?.search(url);
+        // batches are enriched side by side while the result list keeps paging, but saved one after another
+        const pendingBatches = new Set<Posting[]>();
+        const enrichments: Promise<void>[] = [];
+        let saveQueue = Promise.resolve();
+        // errors of batches that could not be enriched or saved, paging stops and the first one is thrown once the rest settled
+        const failures: unknown[] = [];
+        let count = progress.postingsRead;
+        let lastCleanup = count;
+        let taken = 0;
+
+        const updatePending = async () => {
+            progress.pendingPostings = [...pendingBatches].flat();
+            await checkpoint?.persist();
+        };
+        const enrichAndSave = async (batch: Posting[]) => {
+            pendingBatches.add(batch);
+            await updatePending();
+            await this.companyPool.process(batch);
+            // after a failed save the later batches are not saved either, they stay pending in the checkpoint
+            saveQueue = saveQueue.then(async () => {
+                markSeen(batch, this.options.seenStore);
+                await saveCallback(batch);
+                await this.options.seenStore?.persist();
+                pendingBatches.delete(batch);
+                await updatePending();
+            });
+            await saveQueue;
+        };
+        const startEnrichment = (batch: Posting[]) => {
+            enrichments.push(enrichAndSave(batch).catch(error => {
+                failures.push(error);
+            }));
+        };
+
+        if (this.countedUrl !== url) await this.jobCrawler.goto(url);
+        this.countedUrl = null;
+        const total = parseResultCount(await this.jobCrawler.getTextWithId(elementId(RESULT_LIST.resultCount)));
+        const resultList = new ResultListReader(this.jobCrawler);
+
+        if (progress.pendingPostings.length > 0) {
+            console.log(`Resuming enrichment of ${progress.pendingPostings.length} postings from the last checkpoint`);
+            startEnrichment(progress.pendingPostings);
+        }
+        if (progress.pageOffsets.length > 0)
+            await this.fastForward(resultList, progress.pageOffsets);
         
         while (true) {
-            const i = count;
-            
-            // Periodic memory cleanup for main crawler
+            // Periodic memory cleanup for main crawler, company crawlers clean up after themselves
             if (count - lastCleanup >= 50) {
                 console.log('Performing periodic memory cleanup...');
                 await this.jobCrawler.cleanupMemory();
-                await Promise.all(this.companyCrawlers.map(crawler => crawler.cleanupMemory()));
                 lastCleanup = count;
             }
-            
-            let found = await this.readArbeitsagenturPosting(i);
-            if (!found) { // last posting on the page reached
-                if (finalizePromise) await finalizePromise;
-                postings = postings.filter(posting => !this.scrapedIds.has(posting.arbeitsagentur_id));
+
+            // all cards of the page in one go, cards seen on an earlier page are skipped by their posting id
+            const listed = (await resultList.readNewCards()).map(postingFromCard);
+            count += listed.length;
+            this.options.history?.markListed(listed.map(posting => posting.arbeitsagentur_id));
+            const batch = takeUnscrapedPostings(listed, this.scrapedIds, this.options);
+            if (stats) {
+                stats.pages_loaded++;
+                stats.postings_listed += listed.length;
+                stats.duplicate_postings += listed.length - batch.postings.length - batch.filteredOut;
+                stats.postings_filtered += batch.filteredOut;
+            }
+            const onlyKnownOnPage = this.options.onlyNewPostings && batch.onlyKnown;
+            // postings over the limit stay unscraped, another search may still take them
+            for (const posting of batch.postings.slice(maxPostings - taken))
+                this.scrapedIds.delete(posting.arbeitsagentur_id);
+            const postings = batch.postings.slice(0, maxPostings - taken);
+            taken += postings.length;
+            progress.postingsRead = count;
+            if (postings.length > 0) {
                 for (const posting of postings)
-                    this.scrapedIds.add(posting.arbeitsagentur_id);
-                if (postings.length > 0) {
-                    for (const posting of postings)
-                        posting.from_search_url = url;
-                    finalizePromise = this.addCompanyData(postings).then(async postings => {
-                        await saveCallback(postings)
-                    });
-                    postings = [];
-                }
-                if (!await this.loadNextPage(i))
-                    break;
-                console.log(`Processed ${count} postings, loading next page...`);
-                continue;
+                    posting.from_search_url = url;
+                startEnrichment(postings);
+            } else {
+                await checkpoint?.persist();
+            }
+            if (onlyKnownOnPage) {
+                console.log(`Page contained only known postings, stopping pagination for ${url}`);
+                break;
+            }
+            if (taken >= maxPostings) {
+                console.log(`Reached ${maxPostings} postings, stopping pagination for ${url}`);
+                break;
+            }
+            await this.companyPool.waitForCapacity();
+            if (failures.length > 0) {
+                console.warn(`Stopping pagination for ${url}, postings could not be enriched or saved`);
+                break;
             }
-            postings.push(found);
-            count++;
+            if (pacing?.budget?.exhaustedReason())
+                break;
+            if (!await this.loadNextPage(resultList))
+                break;
+            progress.pageOffsets.push(count);
+            await checkpoint?.persist();
+            console.log(`Processed ${count} postings (${this.companyPool.backlog} waiting for details, ${this.companyPool.size} company crawlers), loading next page...`);
         }
-        if (finalizePromise) await finalizePromise;
+        await Promise.all(enrichments);
+        if (failures.length > 0) throw failures[0];
+        if (total !== null && count < total)
+            console.warn(`Pagination of ${url} ended after ${count} of ${total} results`);
         return count;
     }
 
-    async close() {
-        await new Promise(resolve => setTimeout(resolve, 5000));
-        await this.jobCrawler.close();
-        await Promise.all(this.companyCrawlers.map(crawler => crawler.close()));
+    /**
+     * Loads the detail pages of postings that failed in an earlier run, or are known only by their id, again.
+     */
+    async reenrichPostings(postings: Posting[], saveCallback: (postings: Posting[]) => Promise<void>) {
+        await this.companyPool.process(postings);
+        markSeen(postings, this.options.seenStore);
+        await saveCallback(postings);
+        await this.options.seenStore?.persist();
     }
 
-    private async readArbeitsagenturPosting(i: number): Promise<Omit<Posting, 'company' | 'country'> | undefined> {
-        const companyName = await this.jobCrawler.getTextWithId(`eintrag-${i}-firma`);
-        if (companyName == null) return;
-        const [jobName, companyLocation, startDate, postDate, linkItem] = await Promise.all([
-            this.jobCrawler.getTextWithId(`eintrag-${i}-titel`),
-            this.jobCrawler.getTextWithId(`eintrag-${i}-arbeitsort`),
-            this.jobCrawler.getTextWithId(`eintrag-${i}-eintrittsdatum`),
-            this.jobCrawler.getTitleAttrWithId(`eintrag-${i}-veroeffentlichungsdatum`),
-            this.jobCrawler.getLinkItem(`ergebnisliste-item-${i}`)
-        ]);
-        const cleanPostDate = postDate ? postDate.replace('Veröffentlichungsdatum: ', '') : null;
-        const date = cleanPostDate ? new Date(+cleanPostDate.slice(6, 10), +cleanPostDate.slice(3, 5) - 1, +cleanPostDate.slice(0, 2)) : null;
-        const linkUrl = await linkItem.evaluate((el: HTMLAnchorElement) => el.href);
-        await this.jobCrawler.deleteOuterElement(linkItem, 2);
-        const id = linkUrl.split('/').pop();
-        return {
-            company_name: companyName.replace('Arbeitgeber:\n', '').trim(),
-            city: companyLocation!.replace('Arbeitsort:\n', '').trim(),
-            arbeitsagentur_id: id!,
-            start_date: startDate?.trim() ?? null,
-            post_date: date ? date.toISOString() : null,
-            raw_job_title: jobName?.replace("Berufsbezeichnung:\n", '') ?? null,
-            postal_code: null,
-            street: null,
-            email: null,
-            phone: null,
-            website: null,
-            company_size: null,
-        };
+    /**
+     * Canary check before a run: opens the first result page and the first detail page of the search and throws a
+     * `LayoutChangedError` if required elements are missing, after saving snapshots of the page to `files`.
+     */
+    async checkLayout(url: string, files: FileSaver) {
+        this.countedUrl = null;
+        await this.jobCrawler.goto(url);
+        const total = parseResultCount(await this.jobCrawler.getTextWithId(elementId(RESULT_LIST.resultCount)));
+        // an empty result list only shows the heading
+        const resultElements = total === 0 ? { resultCount: RESULT_LIST.resultCount } : RESULT_LIST;
+        const missingResults = await findMissingElements(this.jobCrawler, resultElements, 'results');
+        if (missingResults.length > 0)
+            throw new LayoutChangedError(missingResults, await saveLayoutSnapshot(this.jobCrawler, 'results', files));
+        if (total === 0) {
+            console.warn(`${url} has no results, the layout of detail pages could not be checked`);
+            return;
+        }
+
+        const firstDetailUrl = await this.jobCrawler.getLinkUrl(elementId(RESULT_LIST.link));
+        await this.jobCrawler.goto(firstDetailUrl!);
+        const missingDetails = await findMissingElements(this.jobCrawler, DETAIL_PAGE, 'detail');
+        if (missingDetails.length > 0)
+            throw new LayoutChangedError(missingDetails, await saveLayoutSnapshot(this.jobCrawler, 'detail', files));
+        console.log('Layout check passed, all required elements were found');
     }
 
-    private async loadNextPage(i: number) {
+    /**
+     * Tells whether the detail page of a posting is still online, or null if that could not be found out.
+     */
+    async isPostingOnline(id: string) {
+        this.countedUrl = null;
+        try {
+            await this.jobCrawler.goto(detailUrl(id));
+        } catch (error) {
+            // delisted postings answer 404
+            if (error instanceof Error && /: 404\b/.test(error.message)) return false;
+            console.warn(`Failed to re-check posting ${id}:`, error);
+            return null;
+        }
+        return this.jobCrawler.hasElementWithId(elementId(DETAIL_PAGE.description));
+    }
+
+    async countResults(url: string) {
+        this.countedUrl = null;
+        await this.jobCrawler.goto(url);
+        this.countedUrl = url;
+        return parseResultCount(await this.jobCrawler.getTextWithId(elementId(RESULT_LIST.resultCount)));
+    }
+
+    async close() {
+        await new Promise(resolve => {
+            setTimeout(resolve, 5000);
+        });
+        await this.jobCrawler.close();
+        await this.companyPool.close();
+    }
+
+    private async loadNextPage(resultList: ResultListReader) {
+        // the button is gone on the last page
+        if (!await this.jobCrawler.hasElementWithId(elementId(RESULT_LIST.loadMore)))
+            return false;
         try {
             await exponentialBackoff(async () => {
-                await this.jobCrawler.clickButton('ergebnisliste-ladeweitere-button');
-                await waitUntil(() => this.jobCrawler.getTextWithId(`eintrag-${i}-firma`));
+                this.options.pacing?.budget?.countRequest();
+                await this.options.pacing?.rateLimiter?.acquire();
+                await this.jobCrawler.clickButton(elementId(RESULT_LIST.loadMore));
+                if (!await resultList.waitForNewCards())
+                    throw new Error(`No new results appeared after clicking ${RESULT_LIST.loadMore.id}`);
             }, 5, 5000);
             return true;
-        } catch (e) {
+        } catch {
             return false;
         }
     }
 
-    private async addCompanyData(postings: Posting[]) {
-        const groupedPostings = groupBy(postings, (_, i) => i % this.companyCrawlers.length);
-        await Promise.all(Object.entries(groupedPostings).map(async ([crawlerIndex, postings]) => {
-            let requestCount = 0;
-            for (const posting of postings) {
-                const crawler = this.companyCrawlers[+crawlerIndex];
-                const url = `https://www.arbeitsagentur.de/jobsuche/jobdetail/${posting.arbeitsagentur_id}`;
-                
-                try {
-                    // Periodic memory cleanup to prevent crashes
-                    if (requestCount % 10 === 0 && requestCount > 0) {
-                        await crawler.cleanupMemory();
-                    }
-                    
-                    // Try SPA navigation first, fall back to regular navigation
-                    await exponentialBackoff(async () => {
-                        try {
-                            await crawler.goto(url, true, 2); // Reduced retries for SPA navigation
-                        } catch (error) {
-                            console.warn(`SPA navigation failed for ${url}, falling back to regular navigation`);
-                            await crawler.goto(url, false, 3); // More retries for regular navigation
-                        }
-                    }, 2, 3000); // Reduced base retry attempts since goto now has its own retry logic
-                    
-                } catch (e) {
-                    console.error(`Failed to navigate to ${url} after all retries:`, e);
-                    // Continue processing other postings even if one fails
-                    continue;
-                }
-                
-                try {
-                    const [address, beschreibung, link, companySize] = await Promise.all([
-                        crawler.getTextWithId('detail-arbeitsorte-arbeitsort-0'),
-                        crawler.getTextWithId('detail-beschreibung-beschreibung'),
-                        crawler.getLinkUrl('detail-agdarstellung-link-0', true),
-                        crawler.getTextWithId('detail-agdarstellung-betriebsgroesse'),
-                    ]);
-                    posting.postal_code = getPostalCodeFromAddress(address) ?? getPostalCodeFromAddress(beschreibung);
-                    const street = address?.split(/, \d{4,}/)[0]?.trim() ?? null;
-                    posting.website = link;
-                    posting.company_size = companySize ? Math.round(+(companySize.split(' ')[0])) : null;
-                    posting.street = street;
-                    if (beschreibung) {
-                        posting.email = findEmailInText(beschreibung);
-                        posting.phone = findPhoneNumberInText(beschreibung);
-                    }
-                } catch (error) {
-                    console.warn(`Failed to extract data from ${url}:`, error);
-                    // Continue with next posting
-                }
-                
-                requestCount++;
+    private async fastForward(resultList: ResultListReader, pageOffsets: number[]) {
+        console.log(`Fast-forwarding ${pageOffsets.length} result pages from the last checkpoint...`);
+        for (const offset of pageOffsets) {
+            // the postings of these pages were handed over before the restart
+            await resultList.readNewCards();
+            if (!await this.loadNextPage(resultList)) {
+                console.warn(`Could only restore ${pageOffsets.indexOf(offset)} of ${pageOffsets.length} result pages`);
+                return;
             }
-        }));
-        return postings;
+        }
     }
+
+}
+
+async function createCompanyWorker({ stats, fixtureDirectory, pacing, proxies }: ArbeitsagenturCrawlerOptions): Promise<CompanyWorker> {
+    const crawler = await Crawler.create({ iDontCareAboutCookies: true, fixtureDirectory, pacing, proxies });
+    crawler.onRestart(event => stats?.recordBrowserRestart(event));
+    // detail pages are opened through the SPA router, which needs the job search app loaded once
+    await crawler.goto(JOB_SEARCH_START_URL);
+    return { crawler, requestCount: 0, close: async () => crawler.close() };
+}
+
+async function addCompanyData(worker: CompanyWorker, posting: Posting, { stats, pacing }: ArbeitsagenturCrawlerOptions) {
+    const { crawler } = worker;
+    const url = detailUrl(posting.arbeitsagentur_id);
+    if (pacing?.budget && !pacing.budget.takeDetailPage()) {
+        Object.assign(posting, { enrichment_status: 'failed', enrichment_error: `Detail page not loaded, ${pacing.budget.exhaustedReason()}` });
+        return;
+    }
+
+    // Periodic memory cleanup to prevent crashes
+    if (worker.requestCount % 10 === 0 && worker.requestCount > 0) {
+        await crawler.cleanupMemory();
+    }
+    Object.assign(worker, { requestCount: worker.requestCount + 1 });
+
+    // Try SPA navigation first, fall back to regular navigation. A failure puts the posting back on the queue.
+    const navigationStart = Date.now();
+    await exponentialBackoff(async () => {
+        try {
+            await crawler.goto(url, true, 2); // Reduced retries for SPA navigation
+        } catch {
+            console.warn(`SPA navigation failed for ${url}, falling back to regular navigation`);
+            await crawler.goto(url, false, 3); // More retries for regular navigation
+        }
+    }, 2, 3000); // Reduced base retry attempts since goto now has its own retry logic
+    stats?.recordTiming('navigation', Date.now() - navigationStart);
+
+    const extractionStart = Date.now();
+    Object.assign(posting, await extractJobDetails(crawler));
+    if (!posting.company_name) Object.assign(posting, await extractPostingHeader(crawler));
+    stats?.recordTiming('extraction', Date.now() - extractionStart);
 }
@@ -0,0 +1,77 @@
+import type { Posting } from './posting.js';
+import type { JsonStorage } from './storage.js';
+
+const CHECKPOINT_KEY = 'CHECKPOINT';
+
+export type SearchProgress = {
+    url: string;
+    // number of result list entries that were read and handed over to enrichment
+    postingsRead: number;
+    // value of `postingsRead` at the moment each "weitere laden" page was requested
+    pageOffsets: number[];
+    // postings that were scraped from the result list but not saved yet
+    pendingPostings: Posting[];
+};
+
+type CheckpointState = {
+    completedSearchUrls: string[];
+    current: SearchProgress | null;
+    scrapedIds: string[];
+};
+
+export class Checkpoint {
+
+    static async load(storage: JsonStorage): Promise<Checkpoint> {
+        const state = await storage.getValue<CheckpointState>(CHECKPOINT_KEY);
+        return new Checkpoint(storage, state ?? { completedSearchUrls: [], current: null, scrapedIds: [] });
+    }
+
+    readonly scrapedIds: Set<string>;
+    private readonly storage: JsonStorage;
+    private readonly completedSearchUrls: Set<string>;
+    private current: SearchProgress | null;
+
+    private constructor(storage: JsonStorage, state: CheckpointState) {
+        this.storage = storage;
+        this.completedSearchUrls = new Set(state.completedSearchUrls);
+        this.current = state.current;
+        this.scrapedIds = new Set(state.scrapedIds);
+    }
+
+    get isResumed() {
+        return this.completedSearchUrls.size > 0 || this.current !== null;
+    }
+
+    isCompleted(url: string) {
+        return this.completedSearchUrls.has(url);
+    }
+
+    /**
+     * Returns the progress stored for `url` by an earlier attempt of this run, or starts tracking it from scratch.
+     */
+    startSearch(url: string): SearchProgress {
+        if (this.current?.url !== url)
+            this.current = { url, postingsRead: 0, pageOffsets: [], pendingPostings: [] };
+        return this.current;
+    }
+
+    completeSearch(url: string) {
+        this.completedSearchUrls.add(url);
+        if (this.current?.url === url) this.current = null;
+    }
+
+    async persist() {
+        await this.storage.setValue(CHECKPOINT_KEY, {
+            completedSearchUrls: [...this.completedSearchUrls],
+            current: this.current,
+            scrapedIds: [...this.scrapedIds],
+        } satisfies CheckpointState);
+    }
+
+    async clear() {
+        this.completedSearchUrls.clear();
+        this.current = null;
+        this.scrapedIds.clear();
+        await this.storage.setValue(CHECKPOINT_KEY, null);
+    }
+}
@@ -0,0 +1,150 @@
+import { normalizeCompanyName } from './misc/company-name.js';
+import type { Posting } from './posting.js';
+import type { JsonStorage } from './storage.js';
+
+const COMPANIES_KEY = 'COMPANIES';
+
+export type SourcedValue<T> = {
+    value: T;
+    // arbeitsagentur ids of the postings the value was found in
+    sources: string[];
+    first_seen: string;
+    last_seen: string;
+};
+
+export type CompanyRecord = {
+    company_key: string;
+    company_name: string;
+    postal_code: number | null;
+    city: string | null;
+    posting_ids: string[];
+    job_titles: string[];
+    emails: SourcedValue<string>[];
+    phones: SourcedValue<string>[];
+    websites: SourcedValue<string>[];
+    company_sizes: SourcedValue<number>[];
+    // best lead score of its postings, records of earlier versions have none
+    lead_score?: number;
+    first_seen: string;
+    last_seen: string;
+};
+
+export function companyKey(companyName: string, postalCode: number | null) {
+    return `${normalizeCompanyName(companyName)}|${postalCode ?? ''}`;
+}
+
+function addUnique<T>(values: T[], value: T | null | undefined) {
+    if (value !== null && value !== undefined && value !== '' && !values.includes(value)) values.push(value);
+}
+
+function mergeValue<T>(values: SourcedValue<T>[], value: T | null | undefined, source: string, timestamp: string) {
+    if (value === null || value === undefined || value === '') return;
+    const existing = values.find(known => known.value === value);
+    if (!existing) {
+        values.push({ value, sources: [source], first_seen: timestamp, last_seen: timestamp });
+        return;
+    }
+    addUnique(existing.sources, source);
+    existing.last_seen = timestamp;
+}
+
+/**
+ * One record per employer, merged from all postings seen across runs. Employers are told apart by their normalized
+ * name and postal code.
+ */
+export class CompanyStore {
+
+    static async open(storage: JsonStorage): Promise<CompanyStore> {
+        const records = await storage.getValue<Record<string, CompanyRecord>>(COMPANIES_KEY);
+        return new CompanyStore(storage, new Map(Object.entries(records ?? {})));
+    }
+
+    private readonly storage: JsonStorage;
+    private readonly records: Map<string, CompanyRecord>;
+    private readonly touchedKeys = new Set<string>();
+    private changed = false;
+
+    private constructor(storage: JsonStorage, records: Map<string, CompanyRecord>) {
+        this.storage = storage;
+        this.records = records;
+    }
+
+    get size() {
+        return this.records.size;
+    }
+
+    get(key: string) {
+        return this.records.get(key);
+    }
+
+    addPostings(postings: Posting[], now = new Date()) {
+        const timestamp = now.toISOString();
+        for (const posting of postings) {
+            if (!posting.company_name) continue;
+            const key = companyKey(posting.company_name, posting.postal_code);
+            let record = this.records.get(key);
+            if (!record) {
+                record = {
+                    company_key: key,
+                    company_name: posting.company_name,
+                    postal_code: posting.postal_code,
+                    city: posting.city || null,
+                    posting_ids: [],
+                    job_titles: [],
+                    emails: [],
+                    phones: [],
+                    websites: [],
+                    company_sizes: [],
+                    first_seen: timestamp,
+                    last_seen: timestamp,
+                };
+                this.records.set(key, record);
+            }
+            const id = posting.arbeitsagentur_id;
+            posting.company_key = key;
+            record.company_name = posting.company_name;
+            record.city = posting.city || record.city;
+            record.last_seen = timestamp;
+            addUnique(record.posting_ids, id);
+            addUnique(record.job_titles, posting.raw_job_title?.trim());
+
+            const contacts = posting.contacts ?? [];
+            for (const contact of contacts) {
+                if (contact.type === 'email') mergeValue(record.emails, contact.value, id, timestamp);
+                if (contact.type === 'phone') mergeValue(record.phones, contact.value, id, timestamp);
+            }
+            if (contacts.length === 0) {
+                mergeValue(record.emails, posting.email, id, timestamp);
+                mergeValue(record.phones, posting.phone, id, timestamp);
+            }
+            mergeValue(record.websites, posting.website, id, timestamp);
+            mergeValue(record.company_sizes, posting.company_size, id, timestamp);
+            if (posting.lead_score !== undefined) record.lead_score = Math.max(record.lead_score ?? 0, posting.lead_score);
+            this.touchedKeys.add(key);
+            this.changed = true;
+        }
+    }
+
+    // records that got new postings in this run
+    touchedRecords() {
+        return [...this.touchedKeys].map(key => this.records.get(key)!);
+    }
+
+    /**
+     * Forgets employers without a posting since `cutoff`, their records stay in the company datasets of earlier runs.
+     * Returns the number of forgotten employers.
+     */
+    prune(cutoff: Date) {
+        const before = this.records.size;
+        for (const [key, record] of this.records)
+            if (new Date(record.last_seen) < cutoff) this.records.delete(key);
+        if (this.records.size < before) this.changed = true;
+        return before - this.records.size;
+    }
+
+    async persist() {
+        if (!this.changed) return;
+        this.changed = false;
+        await this.storage.setValue(COMPANIES_KEY, Object.fromEntries(this.records));
+    }
+}
@@ -1,13 +1,73 @@
 import type { PlaywrightLaunchContext } from 'crawlee';
 import path from 'path';
-import type { Browser, ElementHandle, Page } from 'playwright';
+import type { Browser, Page } from 'playwright';
 import playwright from 'playwright';
 
+import { serveFixtures } from './fixtures.js';
+import { residentSetSize } from './misc/process-memory.js';
+import type { ProxyRotation } from './proxy-rotation.js';
+import { toPlaywrightProxy } from './proxy-rotation.js';
+import type { ProxySession } from './proxy-session.js';
+import type { RateLimiter } from './rate-limiter.js';
+import type { RunBudget } from './run-budget.js';
+
 const TIMEOUT = 30000;
 
+// what bot protections show instead of the page, only looked for on pages with little text
+const BLOCK_PAGE_TEXT = /captcha|sicherheitsabfrage|zugriff verweigert|access denied|too many requests|zu viele anfragen/i;
+const MAX_BLOCK_PAGE_LENGTH = 2000;
+
+// how often the memory of the browser is sampled, reading it is too slow for every navigation
+const MEMORY_CHECK_INTERVAL = 10;
+
+export type CrawlerHealthThresholds = {
+    // resident memory of all browser processes together
+    maxRssBytes: number;
+    maxJsHeapBytes: number;
+    maxPages: number;
+    maxConsecutiveFailures: number;
+    maxNavigations: number;
+};
+
+export type CrawlerHealth = {
+    rssBytes: number | null;
+    jsHeapBytes: number | null;
+    pages: number;
+    consecutiveFailures: number;
+    navigations: number;
+};
+
+// shared by all crawlers of a run
+export type CrawlerPacing = {
+    rateLimiter?: RateLimiter;
+    budget?: RunBudget;
+};
+
+export type CrawlerRestartEvent = {
+    reason: string;
+    health: CrawlerHealth;
+    restoredUrl: string | null;
+    time: string;
+};
+
+const DEFAULT_HEALTH_THRESHOLDS: CrawlerHealthThresholds = {
+    maxRssBytes: 1536 * 1024 * 1024,
+    maxJsHeapBytes: 512 * 1024 * 1024,
+    maxPages: 5,
+    maxConsecutiveFailures: 5,
+    maxNavigations: 500,
+};
+
+// Disable animations to avoid actionability hangs on Angular pages
+function disableAnimations() {
+    const style = document.createElement('style');
+    style.textContent = `* { transition-duration: 0s !important; animation-duration: 0s !important; }`;
+    document.head.appendChild(style);
+}
+
 export class Crawler {
 
-    public static async create(options: { iDontCareAboutCookies?: boolean } = {}) {
+    public static async create(options: { iDontCareAboutCookies?: boolean, health?: Partial<CrawlerHealthThresholds>, fixtureDirectory?: string, pacing?: CrawlerPacing, proxies?: ProxyRotation } = {}) {
         const { iDontCareAboutCookies = false } = options;
         const launchContext: PlaywrightLaunchContext = {
             launchOptions: {
@@ -35,33 +95,150 @@ export class Crawler {
             launchContext.launchOptions!.args!.push(`--disable-extensions-except=${extPath}`);
             launchContext.launchOptions!.args!.push(`--load-extension=${extPath}`);
         }
+        // every crawler has a proxy session of its own, so crawlers go out through different IPs
+        const proxySession = await options.proxies?.newSession();
+        if (proxySession) launchContext.launchOptions!.proxy = toPlaywrightProxy(proxySession.url);
         const browser = await playwright.chromium.launch(launchContext.launchOptions);
-        const page = await browser.newPage();
-        
+        const crawler = new Crawler(browser, launchContext, { ...DEFAULT_HEALTH_THRESHOLDS, ...options.health }, options.fixtureDirectory, options.pacing);
+        crawler.proxies = options.proxies;
+        crawler.proxySession = proxySession;
+        crawler.page = await crawler.openPage();
+        return crawler;
+    }
+
+    private browser: Browser;
+    private page!: Page;
+    private readonly launchContext: PlaywrightLaunchContext;
+    private readonly thresholds: CrawlerHealthThresholds;
+    // scripts every new page gets, kept to set up the pages of a restarted browser the same way
+    private readonly initScripts: (() => void)[] = [disableAnimations];
+    private readonly restartListeners: ((event: CrawlerRestartEvent) => void)[] = [];
+    private readonly restartEvents: CrawlerRestartEvent[] = [];
+    // pages are served from saved fixtures instead of the network when set
+    private readonly fixtureDirectory?: string;
+    private readonly pacing: CrawlerPacing;
+    private proxies?: ProxyRotation;
+    private proxySession?: ProxySession;
+    private navigations = 0;
+    private consecutiveFailures = 0;
+
+    private constructor(browser: Browser, launchContext: PlaywrightLaunchContext, thresholds: CrawlerHealthThresholds, fixtureDirectory?: string, pacing: CrawlerPacing = {}) {
+        this.browser = browser;
+        this.launchContext = launchContext;
+        this.thresholds = thresholds;
+        this.fixtureDirectory = fixtureDirectory;
+        this.pacing = pacing;
+    }
+
+    public get restarts(): readonly CrawlerRestartEvent[] {
+        return this.restartEvents;
+    }
+
+    public onRestart(listener: (event: CrawlerRestartEvent) => void) {
+        this.restartListeners.push(listener);
+    }
+
+    public async addInitScript(script: () => void) {
+        this.initScripts.push(script);
+        await this.page.addInitScript(script);
+    }
+
+    public async getHealth(withMemory = true): Promise<CrawlerHealth> {
+        return {
+            rssBytes: withMemory ? await this.browserRss() : null,
+            jsHeapBytes: withMemory ? await this.jsHeapSize() : null,
+            pages: this.browser.contexts().reduce((count, context) => count + context.pages().length, 0),
+            consecutiveFailures: this.consecutiveFailures,
+            navigations: this.navigations,
+        };
+    }
+
+    /**
+     * Replaces the browser when it died or crossed one of the health thresholds, and brings the new one back to the
+     * current URL.
+     */
+    public async restartIfUnhealthy() {
+        const health = await this.getHealth(this.navigations % MEMORY_CHECK_INTERVAL === 0);
+        const reason = this.unhealthyReason(health);
+        if (reason) await this.restartBrowser(reason, health);
+    }
+
+    private unhealthyReason(health: CrawlerHealth) {
+        const { maxRssBytes, maxJsHeapBytes, maxPages, maxConsecutiveFailures, maxNavigations } = this.thresholds;
+        if (!this.browser.isConnected()) return 'browser disconnected';
+        if (this.proxySession?.retireReason) return `proxy session ${this.proxySession.id} retired`;
+        if (health.rssBytes !== null && health.rssBytes > maxRssBytes) return `browser memory ${Math.round(health.rssBytes / 1024 / 1024)} MB`;
+        if (health.jsHeapBytes !== null && health.jsHeapBytes > maxJsHeapBytes) return `JS heap ${Math.round(health.jsHeapBytes / 1024 / 1024)} MB`;
+        if (health.pages > maxPages) return `${health.pages} open pages`;
+        if (health.consecutiveFailures >= maxConsecutiveFailures) return `${health.consecutiveFailures} failures in a row`;
+        if (health.navigations >= maxNavigations) return `${health.navigations} navigations since launch`;
+        return null;
+    }
+
+    private async restartBrowser(reason: string, health: CrawlerHealth) {
+        const currentUrl = this.page.isClosed() ? null : this.page.url();
+        const restoredUrl = currentUrl?.startsWith('http') ? currentUrl : null;
+        console.warn(`Restarting browser: ${reason}`);
+        await this.browser.close().catch(error => console.warn('Failed to close old browser:', error));
+        if (this.proxies && this.proxySession?.retireReason) {
+            this.proxySession = await this.proxies.newSession();
+            this.launchContext.launchOptions!.proxy = toPlaywrightProxy(this.proxySession.url);
+            console.log(`Continuing with proxy session ${this.proxySession.id}`);
+        }
+        this.browser = await playwright.chromium.launch(this.launchContext.launchOptions);
+        this.page = await this.openPage();
+        this.navigations = 0;
+        this.consecutiveFailures = 0;
+
+        const event = { reason, health, restoredUrl, time: new Date().toISOString() };
+        this.restartEvents.push(event);
+        for (const listener of this.restartListeners) listener(event);
+        if (restoredUrl) {
+            // a request like any other, it waits for its turn and counts against the budget
+            this.pacing.budget?.countRequest();
+            await this.pacing.rateLimiter?.acquire();
+            await this.page.goto(restoredUrl, { waitUntil: 'networkidle', timeout: TIMEOUT })
+                .catch(error => console.warn(`Failed to restore ${restoredUrl} after browser restart:`, error));
+        }
+    }
+
+    private async browserRss() {
+        try {
+            const session = await this.browser.newBrowserCDPSession();
+            const { processInfo } = await session.send('SystemInfo.getProcessInfo');
+            await session.detach();
+            return await residentSetSize(processInfo.map(info => info.id));
+        } catch {
+            return null;
+        }
+    }
+
+    private async jsHeapSize() {
+        try {
+            // performance.memory is Chromium only
+            return await this.page.evaluate(() => (performance as Performance & { memory?: { usedJSHeapSize: number } }).memory?.usedJSHeapSize ?? null);
+        } catch {
+            return null;
+        }
+    }
+
+    private async openPage() {
+        const page = await this.browser.newPage();
+
         // Set viewport and user agent for consistency
         await page.setViewportSize({ width: 1080, height: 1440 });
-        
-        // Disable animations to avoid actionability hangs on Angular pages
-        await page.addInitScript(() => {
-            const style = document.createElement('style');
-            style.textContent = `* { transition-duration: 0s !important; animation-duration: 0s !important; }`;
-            document.head.appendChild(style);
-        });
-        
+
+        for (const script of this.initScripts)
+            await page.addInitScript(script);
+        if (this.fixtureDirectory)
+            await serveFixtures(page, this.fixtureDirectory);
+
         // Handle page crashes gracefully
         page.on('crash', () => {
             console.warn('Page crashed, will be recreated on next navigation attempt');
         });
-        
-        return new Crawler(browser, page);
-    }
-
-    private readonly browser: Browser;
-    private readonly page: Page;
 
-    constructor(browser: Browser, page: Page) {
-        this.browser = browser;
-        this.page = page;
+        return page;
     }
 
     private async recreatePage(): Promise<void> {
@@ -73,25 +250,14 @@ export class Crawler {
             // Ignore errors when closing crashed page
         }
         
-        // Create new page with same initialization
-        const newPage = await this.browser.newPage();
-        
-        // Set viewport and user agent for consistency
-        await newPage.setViewportSize({ width: 1080, height: 1440 });
-        
-        await newPage.addInitScript(() => {
-            const style = document.createElement('style');
-            style.textContent = `* { transition-duration: 0s !important; animation-duration: 0s !important; }`;
-            document.head.appendChild(style);
-        });
-        
-        // Handle page crashes gracefully
-        newPage.on('crash', () => {
-            console.warn('Page crashed, will be recreated on next navigation attempt');
-        });
-        
-        // Replace the page reference
-        (this as any).page = newPage;
+        this.page = await this.openPage();
+    }
+
+    // the text that gave a bot protection page away, or null for a regular page
+    private async blockedBy() {
+        const text = await this.page.evaluate(() => `${document.title}\n${document.body?.innerText ?? ''}`).catch(() => '');
+        if (text.length > MAX_BLOCK_PAGE_LENGTH) return null;
+        return text.match(BLOCK_PAGE_TEXT)?.[0] ?? null;
     }
 
     private async isPageHealthy(): Promise<boolean> {
@@ -109,9 +275,16 @@ export class Crawler {
 
     public async goto(url: string, useSpaNavigation: boolean = false, maxRetries: number = 3) {
         if (!url.startsWith('http')) url = 'http://' + url;
+        await this.restartIfUnhealthy();
+        this.navigations++;
+        const { rateLimiter, budget } = this.pacing;
         
         for (let attempt = 0; attempt <= maxRetries; attempt++) {
+            // a 429 response may tell how long to wait
+            let retryAfterMs = 0;
             try {
+                budget?.countRequest();
+                await rateLimiter?.acquire();
                 // Check page health before attempting navigation
                 if (!(await this.isPageHealthy())) {
                     throw new Error('Page is unhealthy, needs recreation');
@@ -158,18 +331,39 @@ export class Crawler {
                 } else {
                     const gotoPromise = (async () => {
                         const response = await this.page.goto(url, { waitUntil: 'networkidle', timeout: TIMEOUT });
-                        if (response?.status() !== 200) throw new Error(`Failed to load ${url}: ${response?.status()}`);
+                        const status = response?.status();
+                        if (status === 429 || (status !== undefined && status >= 500)) {
+                            rateLimiter?.reportThrottled(`${url} answered ${status}`);
+                            retryAfterMs = 1000 * (Number(await response?.headerValue('retry-after')) || 0);
+                        }
+                        // the IP of the proxy is blocked or rate limited, another one may not be
+                        if (status === 403 || status === 429) this.proxySession?.retire(`${url} answered ${status}`);
+                        if (status !== 200) throw new Error(`Failed to load ${url}: ${status}`);
                     })();
 
                     await Promise.race([gotoPromise, crashPromise]);
                 }
 
+                const blockedBy = await this.blockedBy();
+                if (blockedBy) {
+                    rateLimiter?.reportThrottled(`${url} showed "${blockedBy}"`);
+                    this.proxySession?.retire(`${url} showed "${blockedBy}"`);
+                    throw new Error(`Blocked at ${url}: page shows "${blockedBy}"`);
+                }
+
                 // If we get here, navigation was successful
+                this.consecutiveFailures = 0;
+                rateLimiter?.reportSuccess();
+                this.proxySession?.markGood();
                 return;
 
             } catch (error) {
                 const errorMessage = error instanceof Error ? error.message : String(error);
+                // a missing page stays missing, e.g. a delisted posting, and is no fault of the browser or the proxy
+                if (/: 404$/.test(errorMessage)) throw new Error(`Failed to navigate to ${url}: ${errorMessage}`);
+                this.consecutiveFailures++;
                 console.warn(`Navigation attempt ${attempt + 1}/${maxRetries + 1} failed for ${url}: ${errorMessage}`);
+                this.proxySession?.markBad(errorMessage);
 
                 if (attempt === maxRetries) {
                     throw new Error(`Failed to navigate to ${url} after ${maxRetries + 1} attempts: ${errorMessage}`);
@@ -191,8 +385,11 @@ export class Crawler {
                     }
                 }
 
-                // Wait before retrying with exponential backoff
-                await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt)));
+                // retry through a new proxy right away once the session is retired
+                if (this.proxySession?.retireReason) await this.restartIfUnhealthy();
+
+                // Wait before retrying with exponential backoff, or as long as the server asked for
+                await new Promise(resolve => setTimeout(resolve, Math.max(1000 * Math.pow(2, attempt), retryAfterMs)));
             }
         }
     }
@@ -243,12 +440,6 @@ export class Crawler {
         return image.evaluate((el: HTMLImageElement) => el.src);
     }
 
-    public async getLinkItem(id: string) {
-        const link = await this.page.$(`a[id="${id}"]`);
-        if (!link) throw new Error(`Link with selector ${id} not found`);
-        return link;
-    }
-
     public async clickButton(id: string) {
         // focus button
         const button = await this.page.$(`button[id="${id}"]`);
@@ -273,6 +464,40 @@ export class Crawler {
         return element?.evaluate((el: HTMLElement) => el.innerText);
     }
 
+    public async getTextsWithIdPrefix(prefix: string) {
+        const elements = await this.page.$$(`[id^="${prefix}"]`);
+        return Promise.all(elements.map(async element => element.evaluate((el: HTMLElement) => el.innerText)));
+    }
+
+    public async getLinkUrlsWithSelector(selector: string) {
+        const links = await this.page.$$(selector);
+        return Promise.all(links.map(async link => link.evaluate((el: HTMLAnchorElement) => el.href)));
+    }
+
+    public async getLinks() {
+        return this.page.$$eval('a[href]', links => links.map(link => ({
+            href: (link as HTMLAnchorElement).href,
+            text: (link as HTMLAnchorElement).innerText.trim(),
+        })));
+    }
+
+    // runs a function in the page, it is serialized, so it can only use its argument and no outer variables
+    public async evaluate<R, Arg>(pageFunction: (arg: Arg) => R | Promise<R>, arg: Arg): Promise<R> {
+        return this.page.evaluate(pageFunction as (arg: unknown) => R | Promise<R>, arg);
+    }
+
+    public async getPageText() {
+        return this.page.evaluate(() => document.body.innerText);
+    }
+
+    public async getHtml() {
+        return this.page.content();
+    }
+
+    public async screenshot() {
+        return this.page.screenshot({ fullPage: true });
+    }
+
     public async getTextWithClass(className: string) {
         const element = await this.page.$(`.${className}`);
         return element?.evaluate((el: HTMLElement) => el.innerText);
@@ -297,20 +522,4 @@ export class Crawler {
     public async close() {
         await this.browser.close();
     }
-
-    public async deleteOuterElement(item: ElementHandle, parent: number = 1) {
-        // Start from the provided element handle
-        let elementHandle: ElementHandle = item;
-        // Traverse up the DOM 'parent' levels
-        for (let i = 0; i < parent; i++) {
-            // Get the parent element via evaluateHandle and convert to ElementHandle
-            const jsHandle = await elementHandle.evaluateHandle((el: HTMLElement) => el.parentElement);
-            const parentEl = jsHandle.asElement();
-            if (!parentEl) {
-                throw new Error(`Parent element not found at depth ${i + 1}`);
-            }
-            elementHandle = parentEl;
-        }
-        await elementHandle.evaluate((el: HTMLElement) => el.remove());
-    }
 }
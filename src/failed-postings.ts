@@ -0,0 +1,56 @@
+import type { Posting } from './posting.js';
+import type { SeenStore } from './seen-store.js';
+
+export type FailedPostingRecord = Posting & {
+    failed_at: string;
+};
+
+export function failedPostingRecords(postings: Posting[], now = new Date()): FailedPostingRecord[] {
+    return postings
+        .filter(posting => posting.enrichment_status === 'failed')
+        .map(posting => ({ ...posting, failed_at: now.toISOString() }));
+}
+
+// a posting known only by its id, list fields are filled from the detail page where possible
+export function postingStub(id: string): Posting {
+    return {
+        company_name: '',
+        city: '',
+        arbeitsagentur_id: id,
+        start_date: null,
+        post_date: null,
+        raw_job_title: null,
+        postal_code: null,
+        street: null,
+        email: null,
+        phone: null,
+        website: null,
+        company_size: null,
+    };
+}
+
+/**
+ * Turns the records of an earlier run's failure dataset and a list of ids into postings to enrich again. Records keep
+ * what the result list showed, the latest record of a posting wins, and postings whose detail page was read after they
+ * failed are left out. Ids without a record start from scratch. Every id is retried once.
+ */
+export function postingsToRetry(records: Partial<FailedPostingRecord>[], ids: string[], seenStore?: Pick<SeenStore, 'lastEnriched'>): Posting[] {
+    const postings = new Map<string, Posting>();
+    for (const { failed_at: failedAt, ...record } of records) {
+        if (!record.arbeitsagentur_id) continue;
+        const lastEnriched = seenStore?.lastEnriched(record.arbeitsagentur_id);
+        // the failure dataset only grows, a later run may have read the posting since
+        if (lastEnriched && failedAt && lastEnriched > failedAt) continue;
+        postings.set(record.arbeitsagentur_id, {
+            ...postingStub(record.arbeitsagentur_id),
+            ...record,
+            enrichment_status: undefined,
+            enrichment_error: undefined,
+        });
+    }
+    for (const id of ids) {
+        const trimmed = id.trim();
+        if (trimmed && !postings.has(trimmed)) postings.set(trimmed, postingStub(trimmed));
+    }
+    return [...postings.values()];
+}
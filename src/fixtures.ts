@@ -0,0 +1,35 @@
+import { createHash } from 'node:crypto';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { Page } from 'playwright';
+
+/**
+ * File a page is saved under: host and path stay readable, the query is hashed since search urls get long.
+ */
+export function fixtureFileName(url: string) {
+    const { hostname, pathname, search } = new URL(url);
+    const readable = `${hostname}${pathname}`.replace(/[^a-zA-Z0-9-]+/g, '_').replace(/_+$/, '');
+    const query = search ? `_${createHash('sha1').update(search).digest('hex').slice(0, 10)}` : '';
+    return `${readable}${query}.html`;
+}
+
+/**
+ * Answers every document request of the page from saved fixtures and blocks everything else, so a crawler runs
+ * without network access. Pages without a fixture get a 404.
+ */
+export async function serveFixtures(page: Page, directory: string) {
+    await page.route('**/*', async route => {
+        const request = route.request();
+        if (request.resourceType() !== 'document') {
+            await route.abort('blockedbyclient');
+            return;
+        }
+        try {
+            const body = await readFile(path.join(directory, fixtureFileName(request.url())), 'utf8');
+            await route.fulfill({ status: 200, contentType: 'text/html; charset=utf-8', body });
+        } catch {
+            await route.fulfill({ status: 404, contentType: 'text/plain', body: `No fixture for ${request.url()}` });
+        }
+    });
+}
@@ -0,0 +1,162 @@
+import type { Crawler } from './crawler.js';
+import { parseCompanySize } from './misc/company-size.js';
+import { extractContacts } from './misc/contact.js';
+import { getPostalCodeFromAddress } from './misc/postal-code.js';
+import type { ApplicationChannel, ContractType, Posting } from './posting.js';
+import { DETAIL_PAGE, elementId, elementIdPrefix } from './selectors.js';
+
+export type JobDetails = Partial<Omit<Posting, 'company_name' | 'city' | 'arbeitsagentur_id' | 'start_date' | 'post_date' | 'raw_job_title' | 'from_search_url'>>;
+
+// what the extraction reads from a detail page, tests answer it from saved HTML
+export type DetailPage = Pick<Crawler, 'getTextWithId' | 'getPageText' | 'getLinkUrl' | 'getTextsWithIdPrefix' | 'getLinkUrlsWithSelector'>;
+
+/**
+ * Finds the value shown next to a label in the page text, either as "Label: value" or with the value on the next line.
+ */
+export function findLabelledValue(text: string | null | undefined, labels: string[]) {
+    if (!text) return null;
+    for (const label of labels) {
+        const match = text.match(new RegExp(`${label}:?[ \\t]*\\n?[ \\t]*([^\\n]+)`, 'i'));
+        if (match?.[1].trim()) return match[1].trim();
+    }
+    return null;
+}
+
+export function parseContractType(text: string | null | undefined): { contract_type: ContractType | null; contract_duration: string | null } {
+    if (!text) return { contract_type: null, contract_duration: null };
+    // "unbefristet" contains "befristet", so it has to be checked first
+    if (/unbefristet/i.test(text)) return { contract_type: 'unbefristet', contract_duration: text.trim() };
+    return { contract_type: /befristet/i.test(text) ? 'befristet' : null, contract_duration: text.trim() };
+}
+
+export function parsePositions(text: string | null | undefined) {
+    const match = text?.match(/(\d+)\s+(?:offene\s+)?Stellen?\b/i) ?? text?.match(/Anzahl(?: der)? (?:offenen )?Stellen:?\s*(\d+)/i);
+    return match ? +match[1] : null;
+}
+
+export function parseContactPerson(text: string | null | undefined) {
+    const lines = text?.split('\n').map(line => line.trim()).filter(line => line && !/^ansprechpart/i.test(line)) ?? [];
+    const nameIndex = lines.findIndex(line => /^(Frau|Herr|Dr\.|Prof\.)\s/.test(line));
+    if (nameIndex < 0) return { contact_person_name: null, contact_person_title: null };
+    const title = lines[nameIndex + 1];
+    return {
+        contact_person_name: lines[nameIndex],
+        // the line after the name holds the position unless it is already part of the address or contact data
+        contact_person_title: title && !/\d|@|:/.test(title) ? title : null,
+    };
+}
+
+export function parseApplicationChannels(text: string | null | undefined, links: { email?: boolean; online?: boolean } = {}) {
+    const channels = new Set<ApplicationChannel>();
+    if (links.email || (text && /per e-?mail|@/i.test(text))) channels.add('email');
+    if (links.online || (text && /online|bewerbungsportal|karriereseite|über unsere (webseite|website)/i.test(text))) channels.add('online');
+    if (text && /per post|postweg|schriftlich/i.test(text)) channels.add('post');
+    if (text && /telefonisch|rufen sie (uns )?an/i.test(text)) channels.add('phone');
+    if (text && /persönlich/i.test(text)) channels.add('in_person');
+    return [...channels];
+}
+
+/**
+ * Ranks all contacts of a posting and keeps the best email and phone number in the flat columns.
+ */
+export function contactFields(text: string | null | undefined, links: string[] = []): JobDetails {
+    const contacts = extractContacts(text, links);
+    const phone = contacts.find(contact => contact.type === 'phone');
+    return {
+        contacts: contacts.length > 0 ? contacts : null,
+        email: contacts.find(contact => contact.type === 'email')?.value ?? null,
+        phone: phone?.value ?? null,
+        phone_details: phone?.phone ?? null,
+        contact_person_name: contacts.find(contact => contact.person)?.person ?? null,
+    };
+}
+
+async function readField<T>(name: string, read: () => Promise<T>, failedFields: string[]): Promise<T | undefined> {
+    try {
+        return await read();
+    } catch (error) {
+        console.warn(`Failed to extract ${name} from job detail page:`, error);
+        failedFields.push(name);
+        return undefined;
+    }
+}
+
+/**
+ * Reads company name and job title from the header of a job detail page, for postings known only by their id.
+ */
+export async function extractPostingHeader(crawler: DetailPage) {
+    const [title, company] = await Promise.all([
+        crawler.getTextWithId(elementId(DETAIL_PAGE.title)),
+        crawler.getTextWithId(elementId(DETAIL_PAGE.company)),
+    ]);
+    return { raw_job_title: title?.trim() || null, company_name: company?.trim() ?? '' };
+}
+
+/**
+ * Reads everything we use from a job detail page the crawler is currently on. Every field is read on its own, so a
+ * missing or broken element only leaves that field unset.
+ */
+export async function extractJobDetails(crawler: DetailPage): Promise<JobDetails> {
+    const failedFields: string[] = [];
+    let pageTextPromise: Promise<string> | undefined;
+    const pageText = async () => {
+        pageTextPromise ??= crawler.getPageText();
+        return pageTextPromise;
+    };
+    const textOrLabel = async (id: string, labels: string[]) => (await crawler.getTextWithId(id)) ?? findLabelledValue(await pageText(), labels);
+
+    const [address, description, website, companySize] = await Promise.all([
+        readField('address', async () => crawler.getTextWithId(elementId(DETAIL_PAGE.address)), failedFields),
+        readField('description', async () => crawler.getTextWithId(elementId(DETAIL_PAGE.description)), failedFields),
+        readField('website', async () => crawler.getLinkUrl(elementId(DETAIL_PAGE.website), true), failedFields),
+        readField('company size', async () => crawler.getTextWithId(elementId(DETAIL_PAGE.companySize)), failedFields),
+    ]);
+    const [salary, workingTime, contract, referenceNumber, positions, qualifications, contactPerson, application, contactLinks, occupation] = await Promise.all([
+        readField('salary', async () => textOrLabel(elementId(DETAIL_PAGE.salary), ['Vergütung', 'Gehalt']), failedFields),
+        readField('working time', async () => textOrLabel(elementId(DETAIL_PAGE.workingTime), ['Arbeitszeit']), failedFields),
+        readField('contract', async () => textOrLabel(elementId(DETAIL_PAGE.contract), ['Vertragsdauer', 'Befristung']), failedFields),
+        readField('reference number', async () => textOrLabel(elementId(DETAIL_PAGE.referenceNumber), ['Referenznummer']), failedFields),
+        readField('positions', async () => textOrLabel(elementId(DETAIL_PAGE.positions), ['Anzahl offener Stellen', 'Anzahl der Stellen']), failedFields),
+        readField('qualifications', async () => crawler.getTextsWithIdPrefix(elementIdPrefix(DETAIL_PAGE.qualification)), failedFields),
+        readField('contact person', async () => crawler.getTextWithId(elementId(DETAIL_PAGE.contactPerson)), failedFields),
+        readField('application', async () => crawler.getTextWithId(elementId(DETAIL_PAGE.application)), failedFields),
+        readField('contact links', async () => crawler.getLinkUrlsWithSelector('a[href^="mailto:"], a[href^="tel:"]'), failedFields),
+        // "Beruf" only as a label of its own, not the start of "Berufserfahrung"
+        readField('occupation', async () => findLabelledValue(await pageText(), ['\\bBeruf(?=:|[ \\t]*\\n)']), failedFields),
+    ]);
+
+    const details: JobDetails = {};
+    if (address !== undefined || description !== undefined) {
+        details.postal_code = getPostalCodeFromAddress(address) ?? getPostalCodeFromAddress(description);
+        details.street = address?.split(/, \d{4,}/)[0]?.trim() ?? null;
+    }
+    if (description !== undefined) details.description = description?.trim() ?? null;
+    const contactText = [description, application].filter(Boolean).join('\n');
+    if (contactText || contactLinks?.length) Object.assign(details, contactFields(contactText, contactLinks ?? []));
+    if (website !== undefined) details.website = website;
+    if (companySize !== undefined) details.company_size = parseCompanySize(companySize);
+    if (salary !== undefined) details.salary = salary?.trim() || null;
+    if (workingTime !== undefined) details.working_time = workingTime ? workingTime.split(/,|\n/).map(value => value.trim()).filter(Boolean) : null;
+    if (contract !== undefined) Object.assign(details, parseContractType(contract));
+    if (occupation) details.occupation = occupation;
+    if (referenceNumber !== undefined) details.reference_number = referenceNumber?.replace(/^Referenznummer:?/i, '').trim() || null;
+    if (positions !== undefined) details.positions = parsePositions(positions) ?? (positions && /^\d+$/.test(positions.trim()) ? +positions.trim() : null);
+    if (qualifications !== undefined) details.qualifications = qualifications.length > 0 ? qualifications.map(value => value.trim()).filter(Boolean) : null;
+    if (contactPerson !== undefined) {
+        const person = parseContactPerson(contactPerson);
+        details.contact_person_name = person.contact_person_name ?? details.contact_person_name ?? null;
+        details.contact_person_title = person.contact_person_title;
+    }
+    if (application !== undefined || description !== undefined) {
+        const channels = parseApplicationChannels([application, description].filter(Boolean).join('\n'), {
+            email: contactLinks?.some(link => link.startsWith('mailto:')),
+            online: !!application && /https?:\/\//.test(application),
+        });
+        details.application_channels = channels.length > 0 ? channels : null;
+    }
+    // a page without address and description did not render its content, even if no element lookup failed
+    if (!address && !description) failedFields.push('page content');
+    details.enrichment_status = failedFields.length > 0 ? 'partial' : 'ok';
+    details.enrichment_error = failedFields.length > 0 ? `Could not read ${failedFields.join(', ')}` : null;
+    return details;
+}
@@ -0,0 +1,237 @@
+import type { ArbeitsagenturCrawlerOptions } from './arbeitsagentur-crawler.js';
+import type { JobDetails } from './job-detail.js';
+import { contactFields, parseApplicationChannels, parseContactPerson, parseContractType } from './job-detail.js';
+import type { ApiAddress, ApiJobDetail, ApiJobListing } from './jobsuche-api.js';
+import { JobsucheApiClient, searchUrlToApiParams } from './jobsuche-api.js';
+import { parseCompanySize } from './misc/company-size.js';
+import { getPostalCodeFromAddress } from './misc/postal-code.js';
+import type { Posting } from './posting.js';
+import { markSeen, takeUnscrapedPostings } from './posting-batch.js';
+
+const PAGE_SIZE = 100;
+
+type JobsucheApiCrawlerOptions = ArbeitsagenturCrawlerOptions & {
+    apiBaseUrl?: string;
+};
+
+function parseApiDate(date: string | undefined) {
+    const match = date?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+    if (!match) return null;
+    return new Date(+match[1], +match[2] - 1, +match[3]);
+}
+
+function formatAddress(address: ApiAddress | undefined) {
+    if (!address) return null;
+    const place = [address.plz, address.ort].filter(Boolean).join(' ');
+    return [address.strasse, place].filter(Boolean).join(', ') || null;
+}
+
+function listingToPosting(listing: ApiJobListing): Posting {
+    const postDate = parseApiDate(listing.aktuelleVeroeffentlichungsdatum);
+    const startDate = parseApiDate(listing.eintrittsdatum);
+    return {
+        company_name: listing.arbeitgeber?.trim() ?? '',
+        city: listing.arbeitsort?.ort?.trim() ?? '',
+        arbeitsagentur_id: listing.refnr,
+        start_date: startDate ? startDate.toLocaleDateString('de-DE', { day: '2-digit', month: '2-digit', year: 'numeric' }) : null,
+        post_date: postDate ? postDate.toISOString() : null,
+        raw_job_title: listing.titel ?? listing.beruf ?? null,
+        occupation: listing.beruf?.trim() || null,
+        postal_code: getPostalCodeFromAddress(listing.arbeitsort?.plz),
+        street: listing.arbeitsort?.strasse?.trim() ?? null,
+        email: null,
+        phone: null,
+        website: null,
+        company_size: null,
+    };
+}
+
+function apiDetailToJobDetails(detail: ApiJobDetail, posting: Posting): JobDetails {
+    const location = detail.stellenlokationen?.[0]?.adresse ?? detail.arbeitgeberAdresse;
+    const description = detail.stellenbeschreibung ?? null;
+    const details: JobDetails = {
+        postal_code: getPostalCodeFromAddress(formatAddress(location)) ?? posting.postal_code ?? getPostalCodeFromAddress(description),
+        street: location?.strasse?.trim() ?? posting.street,
+        website: detail.arbeitgeberdarstellungUrl ?? null,
+        company_size: parseCompanySize(detail.betriebsgroesse),
+        description: description?.trim() ?? null,
+        salary: detail.verguetung?.trim() || null,
+        working_time: detail.arbeitszeitmodelle?.length ? detail.arbeitszeitmodelle : null,
+        ...parseContractType(detail.vertragsdauer ?? detail.befristung),
+        reference_number: detail.refnr ?? posting.arbeitsagentur_id,
+        occupation: detail.hauptberuf?.trim() || posting.occupation || null,
+        positions: detail.anzahlOffeneStellen ?? null,
+        qualifications: detail.fertigkeiten?.map(skill => skill.hierarchieName).filter((name): name is string => !!name) ?? null,
+    };
+    const person = parseContactPerson(detail.ansprechpartner);
+    const channels = parseApplicationChannels([detail.bewerbung, description].filter(Boolean).join('\n'));
+    details.application_channels = channels.length > 0 ? channels : null;
+    Object.assign(details, contactFields(description));
+    details.contact_person_name = person.contact_person_name ?? details.contact_person_name;
+    details.contact_person_title = person.contact_person_title;
+    return details;
+}
+
+/**
+ * Reads postings from the public jobsuche REST API instead of the web app. Takes the same search urls and produces the
+ * same `Posting` records as `ArbeitsagenturCrawler`, but needs no browser.
+ */
+export class JobsucheApiCrawler {
+
+    private readonly client: JobsucheApiClient;
+    private readonly parallelDetailRequests: number;
+    private readonly options: JobsucheApiCrawlerOptions;
+    private readonly scrapedIds: Set<string>;
+
+    constructor(parallelDetailRequests: number, options: JobsucheApiCrawlerOptions = {}) {
+        this.client = new JobsucheApiClient(options.apiBaseUrl, options.pacing);
+        this.parallelDetailRequests = Math.max(1, parallelDetailRequests);
+        this.options = options;
+        this.scrapedIds = options.checkpoint?.scrapedIds ?? new Set<string>();
+    }
+
+    async readPostings(url: string, saveCallback: (postings: Posting[]) => Promise<void>, maxPostings = Infinity) {
+        const { checkpoint, pacing } = this.options;
+        const params = searchUrlToApiParams(url);
+        const progress = checkpoint?.startSearch(url) ?? { url, postingsRead: 0, pageOffsets: [], pendingPostings: [] };
+        const stats = this.options.stats?.search(url);
+        // the batch of the last page is enriched and saved while the next page loads
+        let finalizePromise: Promise<void> | null = null;
+        // errors of a batch that could not be enriched or saved, thrown once the pending batch settled
+        const failures: unknown[] = [];
+        let taken = 0;
+
+        const enrichAndSave = async (batch: Posting[]) => {
+            progress.pendingPostings = batch;
+            await checkpoint?.persist();
+            await this.addDetails(batch);
+            markSeen(batch, this.options.seenStore);
+            await saveCallback(batch);
+            await this.options.seenStore?.persist();
+            progress.pendingPostings = [];
+            await checkpoint?.persist();
+        };
+        const startEnrichment = async (batch: Posting[]) => enrichAndSave(batch).catch(error => {
+            failures.push(error);
+        });
+
+        if (progress.pendingPostings.length > 0) {
+            console.log(`Resuming enrichment of ${progress.pendingPostings.length} postings from the last checkpoint`);
+            finalizePromise = startEnrichment(progress.pendingPostings);
+        }
+
+        // pages have a fixed size, so the number of read postings tells where to continue after a restart
+        let page = Math.floor(progress.postingsRead / PAGE_SIZE) + 1;
+        try {
+            while (true) {
+                const response = await this.client.search(params, page, PAGE_SIZE);
+                const listings = response.stellenangebote ?? [];
+                if (finalizePromise) await finalizePromise;
+                if (failures.length > 0) {
+                    console.warn(`Stopping pagination for ${url}, postings could not be enriched or saved`);
+                    break;
+                }
+                if (listings.length === 0) break;
+
+                this.options.history?.markListed(listings.map(listing => listing.refnr));
+                const batch = takeUnscrapedPostings(listings.map(listingToPosting), this.scrapedIds, this.options);
+                if (stats) {
+                    stats.pages_loaded++;
+                    stats.postings_listed += listings.length;
+                    stats.duplicate_postings += listings.length - batch.postings.length - batch.filteredOut;
+                    stats.postings_filtered += batch.filteredOut;
+                }
+                progress.postingsRead = (page - 1) * PAGE_SIZE + listings.length;
+                // postings over the limit stay unscraped, another search may still take them
+                for (const posting of batch.postings.slice(maxPostings - taken))
+                    this.scrapedIds.delete(posting.arbeitsagentur_id);
+                const postings = batch.postings.slice(0, maxPostings - taken);
+                taken += postings.length;
+                if (postings.length > 0) {
+                    for (const posting of postings)
+                        posting.from_search_url = url;
+                    finalizePromise = startEnrichment(postings);
+                } else {
+                    finalizePromise = null;
+                    await checkpoint?.persist();
+                }
+                if (this.options.onlyNewPostings && batch.onlyKnown) {
+                    console.log(`Page contained only known postings, stopping pagination for ${url}`);
+                    break;
+                }
+                if (taken >= maxPostings) {
+                    console.log(`Reached ${maxPostings} postings, stopping pagination for ${url}`);
+                    break;
+                }
+                const total = Number(response.maxErgebnisse ?? 0);
+                if (listings.length < PAGE_SIZE || (total > 0 && progress.postingsRead >= total) || pacing?.budget?.exhaustedReason())
+                    break;
+                console.log(`Processed ${progress.postingsRead} of ${total} postings, loading next page...`);
+                page++;
+            }
+        } finally {
+            // a failed page load leaves no batch behind unawaited
+            if (finalizePromise) await finalizePromise;
+        }
+        if (failures.length > 0) throw failures[0];
+        return progress.postingsRead;
+    }
+
+    async reenrichPostings(postings: Posting[], saveCallback: (postings: Posting[]) => Promise<void>) {
+        await this.addDetails(postings);
+        markSeen(postings, this.options.seenStore);
+        await saveCallback(postings);
+        await this.options.seenStore?.persist();
+    }
+
+    async isPostingOnline(id: string) {
+        try {
+            await this.client.jobDetail(id);
+            return true;
+        } catch (error) {
+            if (error instanceof Error && /: 404$/.test(error.message)) return false;
+            console.warn(`Failed to re-check posting ${id}:`, error);
+            return null;
+        }
+    }
+
+    async countResults(url: string) {
+        const response = await this.client.search(searchUrlToApiParams(url), 1, 1);
+        return response.maxErgebnisse === undefined ? null : Number(response.maxErgebnisse);
+    }
+
+    async close() {
+        // nothing to release, the api client holds no connections
+    }
+
+    private async addDetails(postings: Posting[]) {
+        const queue = [...postings];
+        await Promise.all(new Array(Math.min(this.parallelDetailRequests, queue.length)).fill(0).map(async () => {
+            for (let posting = queue.shift(); posting; posting = queue.shift()) {
+                const budget = this.options.pacing?.budget;
+                if (budget && !budget.takeDetailPage()) {
+                    posting.enrichment_status = 'failed';
+                    posting.enrichment_error = `Detail page not loaded, ${budget.exhaustedReason()}`;
+                    continue;
+                }
+                try {
+                    const requestStart = Date.now();
+                    const detail = await this.client.jobDetail(posting.arbeitsagentur_id);
+                    this.options.stats?.recordTiming('navigation', Date.now() - requestStart);
+                    Object.assign(posting, apiDetailToJobDetails(detail, posting));
+                    // postings retried by id have nothing from the result list
+                    if (!posting.company_name) {
+                        posting.company_name = detail.firma?.trim() ?? '';
+                        posting.raw_job_title = detail.stellenangebotsTitel ?? null;
+                    }
+                    posting.enrichment_status = 'ok';
+                    posting.enrichment_error = null;
+                } catch (error) {
+                    console.error(`Failed to load job details for ${posting.arbeitsagentur_id}:`, error);
+                    posting.enrichment_status = 'failed';
+                    posting.enrichment_error = error instanceof Error ? error.message : String(error);
+                }
+            }
+        }));
+    }
+}
@@ -0,0 +1,124 @@
+import type { CrawlerPacing } from './crawler.js';
+import { exponentialBackoff } from './misc/request.js';
+
+export const DEFAULT_API_BASE_URL = 'https://rest.arbeitsagentur.de/jobboerse/jobsuche-service';
+// public client id used by the jobsuche web app and the official mobile app
+const API_KEY = 'jobboerse-jobsuche';
+
+// query parameters of the jobsuche web app that the REST API understands as well
+const SEARCH_PARAMETERS = [
+    'was',
+    'wo',
+    'umkreis',
+    'angebotsart',
+    'arbeitszeit',
+    'befristung',
+    'zeitarbeit',
+    'veroeffentlichtseit',
+    'branche',
+    'berufsfeld',
+    'arbeitgeber',
+    'behinderung',
+    'pav',
+];
+
+export type ApiAddress = {
+    plz?: string;
+    ort?: string;
+    strasse?: string;
+    region?: string;
+    land?: string;
+};
+
+export type ApiJobListing = {
+    refnr: string;
+    titel?: string;
+    beruf?: string;
+    arbeitgeber?: string;
+    arbeitsort?: ApiAddress;
+    eintrittsdatum?: string;
+    aktuelleVeroeffentlichungsdatum?: string;
+};
+
+export type ApiSearchResponse = {
+    stellenangebote?: ApiJobListing[];
+    maxErgebnisse?: number | string;
+    page?: number | string;
+    size?: number | string;
+};
+
+export type ApiJobDetail = {
+    refnr?: string;
+    stellenangebotsTitel?: string;
+    hauptberuf?: string;
+    firma?: string;
+    stellenbeschreibung?: string;
+    arbeitgeberdarstellungUrl?: string;
+    betriebsgroesse?: string;
+    arbeitgeberAdresse?: ApiAddress;
+    stellenlokationen?: { adresse?: ApiAddress }[];
+    verguetung?: string;
+    arbeitszeitmodelle?: string[];
+    vertragsdauer?: string;
+    befristung?: string;
+    anzahlOffeneStellen?: number;
+    fertigkeiten?: { hierarchieName?: string }[];
+    ansprechpartner?: string;
+    bewerbung?: string;
+};
+
+// worth another try, unlike e.g. the 404 of a delisted posting; 0 means the request got no response at all
+function isTransientStatus(status: number) {
+    return status === 0 || status === 429 || status >= 500;
+}
+
+/**
+ * Translates a jobsuche web app url (`https://www.arbeitsagentur.de/jobsuche/suche?...`) into REST API query parameters.
+ */
+export function searchUrlToApiParams(searchUrl: string) {
+    const { searchParams } = new URL(searchUrl);
+    const params = new URLSearchParams();
+    for (const name of SEARCH_PARAMETERS) {
+        const value = searchParams.get(name);
+        if (value) params.set(name, value);
+    }
+    return params;
+}
+
+export class JobsucheApiClient {
+    private readonly baseUrl: string;
+    private readonly pacing: CrawlerPacing;
+
+    constructor(baseUrl = DEFAULT_API_BASE_URL, pacing: CrawlerPacing = {}) {
+        this.baseUrl = baseUrl.replace(/\/$/, '');
+        this.pacing = pacing;
+    }
+
+    async search(params: URLSearchParams, page: number, size: number) {
+        const query = new URLSearchParams(params);
+        query.set('page', `${page}`);
+        query.set('size', `${size}`);
+        return this.get<ApiSearchResponse>(`/pc/v4/jobs?${query}`);
+    }
+
+    async jobDetail(refnr: string) {
+        return this.get<ApiJobDetail>(`/pc/v2/jobdetails/${Buffer.from(refnr).toString('base64')}`);
+    }
+
+    private async get<T>(path: string): Promise<T> {
+        const url = `${this.baseUrl}${path}`;
+        const { rateLimiter, budget } = this.pacing;
+        let status = 0;
+        return exponentialBackoff(async () => {
+            status = 0;
+            budget?.countRequest();
+            await rateLimiter?.acquire();
+            const response = await fetch(url, { headers: { 'X-API-Key': API_KEY, Accept: 'application/json' } });
+            status = response.status;
+            if (status === 429 || status >= 500) rateLimiter?.reportThrottled(`${url} answered ${status}`);
+            if (status !== 200) throw new Error(`Failed to load ${url}: ${status}`);
+            rateLimiter?.reportSuccess();
+            return (await response.json()) as T;
+        }, 3, 1000, () => isTransientStatus(status));
+    }
+}
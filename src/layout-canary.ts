@@ -0,0 +1,56 @@
+import type { Crawler } from './crawler.js';
+import type { FileSaver } from './run-environment.js';
+import type { PageElement } from './selectors.js';
+import { elementId, requiredElements } from './selectors.js';
+
+export type LayoutPage = 'results' | 'detail';
+
+export type MissingElement = {
+    page: LayoutPage;
+    name: string;
+    id: string;
+};
+
+/**
+ * Thrown when required elements are missing from arbeitsagentur.de, which almost always means the site changed its
+ * markup and the selector registry needs an update.
+ */
+export class LayoutChangedError extends Error {
+    readonly missing: MissingElement[];
+
+    constructor(missing: MissingElement[], snapshotKeys: string[]) {
+        const list = missing.map(element => `${element.name} (#${element.id}) on the ${element.page} page`).join(', ');
+        const snapshots = snapshotKeys.length > 0
+            ? `Snapshots of the page are saved to the run's key-value store or output files as ${snapshotKeys.join(', ')}.`
+            : 'No snapshot of the page could be saved.';
+        super(`The layout of arbeitsagentur.de changed, required elements are missing: ${list}. ${snapshots}`);
+        this.name = 'LayoutChangedError';
+        this.missing = missing;
+    }
+}
+
+export async function findMissingElements(crawler: Crawler, elements: Record<string, PageElement>, page: LayoutPage) {
+    const missing: MissingElement[] = [];
+    for (const [name, element] of requiredElements(elements)) {
+        const id = elementId(element);
+        if (!await crawler.hasElementWithId(id)) missing.push({ page, name, id });
+    }
+    return missing;
+}
+
+/**
+ * Saves the DOM and a screenshot of the page the crawler is on, and returns the keys they were saved under.
+ */
+export async function saveLayoutSnapshot(crawler: Crawler, page: LayoutPage, files: FileSaver) {
+    const prefix = `LAYOUT_SNAPSHOT_${page.toUpperCase()}`;
+    const keys: string[] = [];
+    try {
+        await files.saveFile(`${prefix}_HTML`, await crawler.getHtml(), 'text/html');
+        keys.push(`${prefix}_HTML`);
+        await files.saveFile(`${prefix}_SCREENSHOT`, await crawler.screenshot(), 'image/png');
+        keys.push(`${prefix}_SCREENSHOT`);
+    } catch (error) {
+        console.warn(`Failed to save snapshot of the ${page} page:`, error);
+    }
+    return keys;
+}
@@ -0,0 +1,131 @@
+import { normalizeCompanyName } from './misc/company-name.js';
+import type { EmployerType } from './misc/employer-type.js';
+import { detectEmployerType } from './misc/employer-type.js';
+import type { Posting } from './posting.js';
+import { parseSearchUrl } from './search-url.js';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type ScoreCriterion = 'contact' | 'recency' | 'employer_type' | 'company_size' | 'industry';
+
+export type CriterionScore = {
+    points: number;
+    max_points: number;
+    reason: string;
+};
+
+export type LeadScoringOptions = {
+    // relative weights, scaled so that the criteria in use add up to 100 points
+    weights?: Partial<Record<ScoreCriterion, number>>;
+    companySizeMin?: number;
+    companySizeMax?: number;
+    // branche codes of the search, or words looked for in company name, occupation and description
+    targetIndustries?: string[];
+    // postings older than this get no recency points
+    maxAgeDays?: number;
+};
+
+export const DEFAULT_SCORE_WEIGHTS: Record<ScoreCriterion, number> = {
+    contact: 35,
+    recency: 20,
+    employer_type: 20,
+    company_size: 15,
+    industry: 10,
+};
+
+const CONTACT_SHARES = { email: 0.5, phone: 0.3, website: 0.2 };
+const EMPLOYER_TYPE_SHARES: Record<EmployerType, number> = { direct: 1, recruitment_agency: 0.3, temporary_agency: 0 };
+
+type Rating = { share: number; reason: string };
+
+function rateContact(posting: Posting): Rating {
+    const channels = (['email', 'phone', 'website'] as const).filter(channel => posting[channel]);
+    return {
+        share: channels.reduce((share, channel) => share + CONTACT_SHARES[channel], 0),
+        reason: channels.length > 0 ? channels.join(', ') : 'no contact data',
+    };
+}
+
+function rateRecency(posting: Posting, maxAgeDays: number, now: Date): Rating {
+    if (!posting.post_date) return { share: 0, reason: 'publication date unknown' };
+    const ageDays = Math.max(0, Math.floor((now.getTime() - new Date(posting.post_date).getTime()) / DAY_MS));
+    return { share: Math.max(0, 1 - ageDays / maxAgeDays), reason: `published ${ageDays} days ago` };
+}
+
+function rateCompanySize(posting: Posting, min: number, max: number): Rating {
+    const size = posting.company_size;
+    const target = `${min}-${Number.isFinite(max) ? max : ''} employees`;
+    if (size === null) return { share: 0, reason: `size unknown, target ${target}` };
+    return { share: size >= min && size <= max ? 1 : 0, reason: `${size} employees, target ${target}` };
+}
+
+function rateIndustry(posting: Posting, targets: string[]): Rating {
+    const searchIndustries = posting.from_search_url ? parseSearchUrl(posting.from_search_url).search.industries ?? [] : [];
+    const text = [posting.company_name, posting.occupation_group, posting.normalized_job_title, posting.description].filter(Boolean).join('\n').toLowerCase();
+    const match = targets.find(target => (/^\d+$/.test(target) ? searchIndustries.includes(+target) : text.includes(target.toLowerCase())));
+    return match ? { share: 1, reason: `matches ${match}` } : { share: 0, reason: 'no target industry' };
+}
+
+/**
+ * Rates postings as sales leads from 0 to 100 points and keeps the points of every criterion, so a score can be
+ * explained. Company size and industry only count when a target is configured.
+ */
+export class LeadScorer {
+
+    private readonly options: LeadScoringOptions;
+    private readonly maxPoints: Partial<Record<ScoreCriterion, number>>;
+
+    constructor(options: LeadScoringOptions = {}) {
+        this.options = options;
+        const weights = { ...DEFAULT_SCORE_WEIGHTS, ...options.weights };
+        const used = (Object.keys(weights) as ScoreCriterion[]).filter(criterion => {
+            if (criterion === 'company_size' && options.companySizeMin === undefined && options.companySizeMax === undefined) return false;
+            if (criterion === 'industry' && !options.targetIndustries?.length) return false;
+            return weights[criterion] > 0;
+        });
+        const total = used.reduce((sum, criterion) => sum + weights[criterion], 0);
+        this.maxPoints = Object.fromEntries(used.map(criterion => [criterion, weights[criterion] * 100 / total]));
+    }
+
+    score(posting: Posting, now = new Date()) {
+        const employerType = detectEmployerType(posting.company_name, posting.description);
+        const ratings: Record<ScoreCriterion, Rating> = {
+            contact: rateContact(posting),
+            recency: rateRecency(posting, this.options.maxAgeDays ?? 30, now),
+            employer_type: { share: EMPLOYER_TYPE_SHARES[employerType], reason: employerType },
+            company_size: rateCompanySize(posting, this.options.companySizeMin ?? 0, this.options.companySizeMax ?? Infinity),
+            industry: rateIndustry(posting, this.options.targetIndustries ?? []),
+        };
+        const breakdown: Partial<Record<ScoreCriterion, CriterionScore>> = {};
+        for (const [criterion, maxPoints] of Object.entries(this.maxPoints) as [ScoreCriterion, number][]) {
+            const rating = ratings[criterion];
+            breakdown[criterion] = { points: Math.round(rating.share * maxPoints * 10) / 10, max_points: Math.round(maxPoints * 10) / 10, reason: rating.reason };
+        }
+        const score = Math.round(Object.values(breakdown).reduce((sum, criterion) => sum + criterion.points, 0));
+        return { employer_type: employerType, lead_score: score, lead_score_breakdown: breakdown };
+    }
+
+    scorePostings(postings: Posting[], now = new Date()) {
+        for (const posting of postings)
+            Object.assign(posting, this.score(posting, now));
+    }
+}
+
+export type CompanyFilterOptions = {
+    // company names to drop, compared without legal form and spelling variants
+    blocklist?: string[];
+    excludeTypes?: EmployerType[];
+};
+
+/**
+ * Drops postings of blocked companies and excluded employer types. Before enrichment only the company name is known,
+ * the description catches more agencies afterwards.
+ */
+export function createCompanyFilter({ blocklist = [], excludeTypes = [] }: CompanyFilterOptions) {
+    const blocked = blocklist.map(normalizeCompanyName).filter(Boolean);
+    return (posting: Posting) => {
+        const name = normalizeCompanyName(posting.company_name);
+        if (blocked.some(blockedName => name === blockedName || name.startsWith(`${blockedName} `))) return false;
+        return !excludeTypes.includes(posting.employer_type ?? detectEmployerType(posting.company_name, posting.description));
+    };
+}
@@ -0,0 +1,155 @@
+import { appendFile, mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import type { DatabaseSync } from 'node:sqlite';
+
+import type { RecordStore, RunEnvironment } from './run-environment.js';
+import { fileJsonStorage } from './storage.js';
+
+export type LocalOutputFormat = 'jsonl' | 'sqlite';
+
+export type LocalEnvironmentOptions = {
+    directory: string;
+    format?: LocalOutputFormat;
+};
+
+export interface LocalEnvironment extends RunEnvironment {
+    readonly directory: string;
+    readonly format: LocalOutputFormat;
+    // where a file saved with `saveFile` ends up
+    filePath(key: string, contentType?: string): string;
+    close(): Promise<void>;
+}
+
+// the main result list of the actor is the unnamed default dataset
+const DEFAULT_RECORDS_NAME = 'postings';
+const SQLITE_FILE_NAME = 'results.sqlite';
+
+const FILE_EXTENSIONS: Record<string, string> = {
+    'application/json': '.json',
+    'text/markdown': '.md',
+    'text/html': '.html',
+    'text/csv': '.csv',
+    'image/png': '.png',
+};
+
+function jsonlRecordStore(filePath: string): RecordStore {
+    return {
+        async push(records) {
+            if (records.length === 0) return;
+            await mkdir(path.dirname(filePath), { recursive: true });
+            await appendFile(filePath, records.map(record => `${JSON.stringify(record)}\n`).join(''));
+        },
+        async getItems() {
+            try {
+                const lines = (await readFile(filePath, 'utf-8')).split('\n').filter(line => line.trim());
+                return lines.map(line => JSON.parse(line) as Record<string, unknown>);
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return [];
+                throw error;
+            }
+        },
+    };
+}
+
+// one table per record list, the records stay JSON so they can be queried with json_extract()
+function sqliteRecordStore(database: DatabaseSync, name: string): RecordStore {
+    const table = name.replace(/[^a-z0-9_]/gi, '_');
+    database.exec(`CREATE TABLE IF NOT EXISTS "${table}" (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        saved_at TEXT NOT NULL DEFAULT CURRENT_TIMESTAMP,
+        record TEXT NOT NULL
+    )`);
+    const insert = database.prepare(`INSERT INTO "${table}" (record) VALUES (?)`);
+    const select = database.prepare(`SELECT record FROM "${table}" ORDER BY id`);
+    return {
+        async push(records) {
+            database.exec('BEGIN');
+            try {
+                for (const record of records)
+                    insert.run(JSON.stringify(record));
+                database.exec('COMMIT');
+            } catch (error) {
+                database.exec('ROLLBACK');
+                throw error;
+            }
+        },
+        async getItems() {
+            return select.all().map(row => JSON.parse(row.record as string) as Record<string, unknown>);
+        },
+    };
+}
+
+async function openDatabase(filePath: string) {
+    const sqlite = await import('node:sqlite').catch(() => {
+        throw new Error(`SQLite output needs Node.js 22.13 or newer (running ${process.version}), use the jsonl format instead`);
+    });
+    await mkdir(path.dirname(filePath), { recursive: true });
+    return new sqlite.DatabaseSync(filePath);
+}
+
+/**
+ * Keeps state and results of command line runs below one directory:
+ * - `state/<store>/<key>.json`: known postings, companies, posting history and the checkpoint of an interrupted run
+ * - `<records>.jsonl` or tables in `results.sqlite`: postings, failed postings, change events and companies
+ * - `files/<key>`: run report and export files
+ */
+export async function openLocalEnvironment(options: LocalEnvironmentOptions): Promise<LocalEnvironment> {
+    const { directory, format = 'jsonl' } = options;
+    const database = format === 'sqlite' ? await openDatabase(path.join(directory, SQLITE_FILE_NAME)) : null;
+    const recordStores = new Map<string, RecordStore>();
+    const persistHandlers: (() => Promise<void>)[] = [];
+
+    const filePath = (key: string, contentType?: string) => {
+        const extension = path.extname(key) ? '' : FILE_EXTENSIONS[contentType?.split(';')[0] ?? 'application/json'] ?? '';
+        return path.join(directory, 'files', `${key}${extension}`);
+    };
+    // Ctrl+C saves the checkpoint and the run report, so the next run with the same directory picks up from there
+    const persistAndExit = async (signal: NodeJS.Signals) => {
+        console.log(`Received ${signal}, saving state`);
+        for (const handler of persistHandlers)
+            await handler();
+        database?.close();
+        process.exit(130);
+    };
+
+    return {
+        directory,
+        format,
+        filePath,
+        openStorage(name) {
+            return fileJsonStorage(path.join(directory, 'state', name ?? 'run'));
+        },
+        async openRecords(name = DEFAULT_RECORDS_NAME) {
+            let store = recordStores.get(name);
+            if (!store) {
+                store = database ? sqliteRecordStore(database, name) : jsonlRecordStore(path.join(directory, `${name}.jsonl`));
+                recordStores.set(name, store);
+            }
+            return store;
+        },
+        async saveFile(key, value, contentType) {
+            const file = filePath(key, contentType);
+            await mkdir(path.dirname(file), { recursive: true });
+            const isRaw = typeof value === 'string' || Buffer.isBuffer(value);
+            await writeFile(file, isRaw ? value : JSON.stringify(value, null, 2));
+        },
+        onPersistState(handler) {
+            if (persistHandlers.length === 0) {
+                process.once('SIGINT', persistAndExit);
+                process.once('SIGTERM', persistAndExit);
+            }
+            persistHandlers.push(handler);
+        },
+        async fail(message) {
+            console.error(message);
+            database?.close();
+            process.exit(1);
+        },
+        timeoutAt: null,
+        async close() {
+            process.removeListener('SIGINT', persistAndExit);
+            process.removeListener('SIGTERM', persistAndExit);
+            database?.close();
+        },
+    };
+}
@@ -1,25 +1,15 @@
-
 import { Actor } from 'apify';
-import { ArbeitsagenturCrawler } from './arbeitsagentur-crawler.js';
 
-interface Input {
-    parallelCompanyCrawlers?: number;
-    maxRequestsPerCrawl?: number;
-    searchUrls?: string[];
-}
+import { apifyEnvironment } from './run-environment.js';
+import type { ScraperInput } from './scraper.js';
+import { runScraper } from './scraper.js';
 
 // Initialize the Apify SDK
 await Actor.init();
 
 // Structure of input is defined in input_schema.json
-const {
-    parallelCompanyCrawlers = 2,
-    searchUrls = ['https://www.arbeitsagentur.de/jobsuche/suche?angebotsart=1&wo=Deutschland&veroeffentlichtseit=7&arbeitszeit=vz;tz;snw;ho&zeitarbeit=true&branche=9;7;11;13;15']
-} = (await Actor.getInput<Input>()) ?? ({} as Input);
-
-const arbeitsagenturCrawler = await ArbeitsagenturCrawler.construct(parallelCompanyCrawlers);
-for (const searchUrl of searchUrls)
-    await arbeitsagenturCrawler.readPostings(searchUrl, postings => Actor.pushData(postings));
+const input = (await Actor.getInput<ScraperInput>()) ?? {};
+await runScraper(input, apifyEnvironment());
 
 // Exit successfully
 await Actor.exit();
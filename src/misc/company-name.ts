@@ -0,0 +1,43 @@
+// longest forms first, so "gmbh & co. kg" is removed as a whole
+const LEGAL_FORMS = [
+    'gmbh & co\\.? kgaa',
+    'gmbh & co\\.? kg',
+    'ug \\(haftungsbeschränkt\\) & co\\.? kg',
+    'ug \\(haftungsbeschränkt\\)',
+    'ag & co\\.? kg',
+    'se & co\\.? kg',
+    'ggmbh',
+    'gmbh',
+    'mbh',
+    'kgaa',
+    'ag',
+    'se',
+    'kg',
+    'ohg',
+    'gbr',
+    'ug',
+    'e\\.\\s?k\\.',
+    'e\\.\\s?v\\.',
+    'e\\.\\s?g\\.',
+    'partg mbb',
+    'partg',
+];
+
+const LEGAL_FORM_REGEX = new RegExp(`(^|\\s)(${LEGAL_FORMS.join('|')})(?=\\s|$|,)`, 'g');
+
+/**
+ * Reduces a company name to a form that is the same for the usual spelling variants of one employer,
+ * e.g. "Müller GmbH & Co. KG" and "Mueller GmbH" both become "mueller".
+ */
+export function normalizeCompanyName(name: string) {
+    return name
+        .toLowerCase()
+        .replace(/\s+/g, ' ')
+        .replace(LEGAL_FORM_REGEX, ' ')
+        .replace(/ä/g, 'ae')
+        .replace(/ö/g, 'oe')
+        .replace(/ü/g, 'ue')
+        .replace(/ß/g, 'ss')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
@@ -0,0 +1,6 @@
+export function parseCompanySize(companySize: string | null | undefined): number | null {
+    if (!companySize) return null;
+    // the lower bound of e.g. "51 bis 500" or "über 5.000", dots only group thousands
+    const match = companySize.replace(/(\d)\.(?=\d{3}\b)/g, '$1').match(/\d+/);
+    return match ? +match[0] : null;
+}
@@ -0,0 +1,121 @@
+import type { PhoneNumber } from './phone.js';
+import { normalizePhoneNumber } from './phone.js';
+
+export type ContactType = 'email' | 'phone' | 'fax';
+
+export type Contact = {
+    type: ContactType;
+    value: string;
+    // text around the match, used for ranking and to let a human judge the contact
+    context: string;
+    source: 'text' | 'link';
+    person: string | null;
+    score: number;
+    // country, line type and extension of phone and fax numbers, whose value is the E.164 form
+    phone?: PhoneNumber;
+};
+
+const EMAIL_REGEX = /[a-zA-Z0-9._%+-]+@[a-zA-Z0-9.-]+\.[a-zA-Z]{2,}/g;
+const PHONE_REGEX = /(?<![\w\-/.])(?:\+49|0049|\+43|0043|\+41|0041|0)[\s/-]*(?:\(0\)\s*)?[1-9][0-9\s/()-]{4,}[0-9](?:,?\s*(?:Durchwahl|DW|Apparat|App\.)\s*:?\s*\d{1,5})?/gi;
+const PERSON_REGEX = /(?:Frau|Herrn?)\s+(?:(?:Dr|Prof)\.\s+)*[A-ZÄÖÜ][\wäöüß-]+(?:\s+[A-ZÄÖÜ][\wäöüß-]+)?/g;
+const CONTEXT_RADIUS = 60;
+
+const APPLICATION_MAILBOXES = /^(bewerbung|bewerbungen|karriere|career|careers|jobs?|personal|hr|recruiting|ausbildung|stellen)\b/i;
+const GENERIC_MAILBOXES = /^(info|kontakt|contact|office|mail|post|zentrale|verwaltung)\b/i;
+const UNWANTED_MAILBOXES = /^(no-?reply|datenschutz|privacy|webmaster|abuse|rechnung|buchhaltung|newsletter)\b/i;
+const APPLICATION_CONTEXT = /bewerb|ansprechpart|senden sie|schicken sie|freuen uns|fragen|kontakt/i;
+const NOT_A_PHONE_CONTEXT = /referenz|ref\.?-?nr|kennziffer|kennnummer|stellen-?id|hrb|ust|steuer|iban|bic|datum/i;
+
+function contextAround(text: string, index: number, length: number) {
+    return text.slice(Math.max(0, index - CONTEXT_RADIUS), index + length + CONTEXT_RADIUS).replace(/\s+/g, ' ').trim();
+}
+
+function textBefore(text: string, index: number, length = 25) {
+    return text.slice(Math.max(0, index - length), index);
+}
+
+// the contact person is usually named right before their address or number
+function precedingPerson(text: string, index: number) {
+    const persons = [...textBefore(text, index, 150).matchAll(PERSON_REGEX)];
+    return persons.at(-1)?.[0] ?? null;
+}
+
+function phoneType(before: string): ContactType {
+    const labels = [...before.matchAll(/fax|tel|fon|mobil|handy/gi)];
+    return labels.at(-1)?.[0].toLowerCase() === 'fax' ? 'fax' : 'phone';
+}
+
+function isPlausiblePhone(raw: string, before: string) {
+    const digits = raw.replace(/\D/g, '');
+    if (digits.length < 6 || digits.length > 15) return false;
+    // dates like 01.05.2024 or 05/2024 and reference numbers are the usual false positives
+    if (/^\d{1,2}\s*\/\s*\d{2,4}$/.test(raw.trim())) return false;
+    return !NOT_A_PHONE_CONTEXT.test(before);
+}
+
+function scoreEmail(email: string, context: string, source: Contact['source']) {
+    const mailbox = email.split('@')[0];
+    let score = 50;
+    if (APPLICATION_MAILBOXES.test(mailbox)) score += 30;
+    else if (GENERIC_MAILBOXES.test(mailbox)) score += 5;
+    else if (/^[a-z]+[.-][a-z]+$/i.test(mailbox)) score += 15; // personal address like anna.schmidt@
+    if (UNWANTED_MAILBOXES.test(mailbox)) score -= 40;
+    if (APPLICATION_CONTEXT.test(context)) score += 10;
+    if (source === 'link') score += 5;
+    return score;
+}
+
+function scorePhone(type: ContactType, context: string, source: Contact['source']) {
+    let score = type === 'fax' ? 10 : 40;
+    if (APPLICATION_CONTEXT.test(context)) score += 10;
+    if (source === 'link') score += 5;
+    return score;
+}
+
+/**
+ * Finds every email address, phone and fax number in a job description plus the given mailto/tel links, ranked by how
+ * likely they are the contact for applications (highest score first, ties keep the order of appearance).
+ */
+export function extractContacts(text: string | null | undefined, links: string[] = []): Contact[] {
+    const contacts: Contact[] = [];
+    const body = text ?? '';
+    const add = (contact: Omit<Contact, 'score'>) => {
+        const existing = contacts.find(known => known.type === contact.type && known.value === contact.value);
+        if (existing) {
+            // a mailto/tel link for an address from the text confirms it
+            if (contact.source === 'link') existing.score += 5;
+            return;
+        }
+        const score = contact.type === 'email' ? scoreEmail(contact.value, contact.context, contact.source) : scorePhone(contact.type, contact.context, contact.source);
+        contacts.push({ ...contact, score });
+    };
+
+    for (const match of body.matchAll(EMAIL_REGEX)) {
+        const value = match[0].replace(/\.$/, '').toLowerCase();
+        if (value.length >= 256) continue;
+        add({ type: 'email', value, context: contextAround(body, match.index, match[0].length), source: 'text', person: precedingPerson(body, match.index) });
+    }
+    for (const match of body.matchAll(PHONE_REGEX)) {
+        const before = textBefore(body, match.index);
+        if (!isPlausiblePhone(match[0], before)) continue;
+        const phone = normalizePhoneNumber(match[0]);
+        if (!phone) continue;
+        add({ type: phoneType(before), value: phone.e164, phone, context: contextAround(body, match.index, match[0].length), source: 'text', person: precedingPerson(body, match.index) });
+    }
+    for (const link of links) {
+        const [scheme, ...rest] = link.split(':');
+        const target = decodeURIComponent(rest.join(':').split('?')[0]).trim();
+        if (!target) continue;
+        if (scheme.toLowerCase() === 'mailto') {
+            add({ type: 'email', value: target.toLowerCase(), context: '', source: 'link', person: null });
+        } else if (scheme.toLowerCase() === 'tel') {
+            const phone = normalizePhoneNumber(target);
+            if (phone) add({ type: 'phone', value: phone.e164, phone, context: '', source: 'link', person: null });
+        }
+    }
+
+    return contacts
+        .map((contact, index) => ({ contact, index }))
+        .sort((a, b) => b.contact.score - a.contact.score || a.index - b.index)
+        .map(({ contact }) => contact);
+}
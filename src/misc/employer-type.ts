@@ -0,0 +1,46 @@
+import { normalizeCompanyName } from './company-name.js';
+
+// direct: the employer hires itself, temporary_agency: Zeitarbeit / Arbeitnehmerüberlassung,
+// recruitment_agency: Personalvermittlung or -beratung searching on behalf of a client
+export type EmployerType = 'direct' | 'temporary_agency' | 'recruitment_agency';
+
+// large Zeitarbeit firms whose names do not say so, in normalized form
+const TEMPORARY_AGENCY_NAMES = [
+    'randstad',
+    'adecco',
+    'manpower',
+    'persona service',
+    'tempton',
+    'orizon',
+    'i k hofmann',
+    'amadeus fire',
+    'piening',
+    'zag personal',
+    'timepartner',
+    'trenkwalder',
+    'gi group',
+    'jobactive',
+    'actief',
+    'dekra arbeit',
+    'autovision',
+];
+
+const TEMPORARY_AGENCY_NAME_WORDS = /zeitarbeit|personaldienst|personalservice|personal service|personalleasing|arbeitnehmerueberlassung|zeitpersonal/;
+const RECRUITMENT_AGENCY_NAME_WORDS = /personalvermittlung|personalberatung|recruiting|headhunt|executive search/;
+
+// "keine Zeitarbeit" is what direct employers write
+const TEMPORARY_AGENCY_TEXT = /(?<!kein(?:e|er)? )(?:arbeitnehmerüberlassung|zeitarbeit)|\bigz\b|\bbap\b|\bgvp\b|equal pay/i;
+const RECRUITMENT_AGENCY_TEXT = /personalvermittlung|direktvermittlung|für unseren (?:kunden|mandanten)|im auftrag (?:unseres|unserer) (?:kunden|mandanten)|personalberatung/i;
+
+/**
+ * Tells employers apart from Zeitarbeit firms and recruiters by the company name and, if given, the posting text.
+ */
+export function detectEmployerType(companyName: string, description?: string | null): EmployerType {
+    const name = normalizeCompanyName(companyName);
+    if (TEMPORARY_AGENCY_NAME_WORDS.test(name) || TEMPORARY_AGENCY_NAMES.some(agency => name === agency || name.startsWith(`${agency} `)))
+        return 'temporary_agency';
+    if (RECRUITMENT_AGENCY_NAME_WORDS.test(name)) return 'recruitment_agency';
+    if (description && TEMPORARY_AGENCY_TEXT.test(description)) return 'temporary_agency';
+    if (description && RECRUITMENT_AGENCY_TEXT.test(description)) return 'recruitment_agency';
+    return 'direct';
+}
@@ -0,0 +1,37 @@
+const LEGAL_FORM = /\b(GmbH|gGmbH|mbH|AG|KG|KGaA|OHG|GbR|UG|SE|e\.\s?K\.|e\.\s?V\.|e\.\s?G\.|PartG)(\b|$)/;
+const REGISTER_NUMBER = /\b(HRB|HRA|GnR|PR|VR)\s*(?:Nr\.?\s*)?(\d+\s?[A-Z]?)\b/;
+const REGISTER_COURT = /(?:Amtsgericht|Registergericht:?)\s+(?:Amtsgericht\s+)?([A-ZÄÖÜ][\wäöüß.-]*(?:\s(?:am|an der|im|i\.)\s?[A-ZÄÖÜ][\wäöüß.-]*)?)/;
+const DIRECTORS = /(?:vertretungsberechtigte[rn]?\s+)?(?:Geschäftsführer(?:in|innen)?|Geschäftsführung|Vertreten durch(?:\s+(?:den|die)\s+Geschäftsführer(?:in)?)?|Inhaber(?:in)?|Vorstand)\s*:?[ \t]*\n?[ \t]*([^\n]+)/i;
+
+export type ImprintData = {
+    legal_name: string | null;
+    register_number: string | null;
+    register_court: string | null;
+    managing_directors: string[];
+};
+
+function isPersonName(value: string) {
+    const words = value.replace(/^(Herr|Frau|Dr\.|Prof\.|Dipl\.-\w+\.?)\s+/g, '').split(/\s+/);
+    return words.length >= 2 && words.length <= 5 && !/\d|@/.test(value) && words.every(word => /^[A-ZÄÖÜ]/.test(word) || /^(von|van|de|zu|der)$/.test(word));
+}
+
+/**
+ * Reads the legal entity, its commercial register entry and the managing directors from the text of an Impressum page.
+ */
+export function parseImprint(text: string | null | undefined): ImprintData {
+    if (!text) return { legal_name: null, register_number: null, register_court: null, managing_directors: [] };
+    const lines = text.split('\n').map(line => line.trim()).filter(Boolean);
+    const legalName = lines.find(line => LEGAL_FORM.test(line) && line.length <= 100 && !line.includes(':')) ?? null;
+    const register = text.match(REGISTER_NUMBER);
+    const court = text.match(REGISTER_COURT);
+    const directors = text.match(DIRECTORS)?.[1]
+        .split(/,|;|\s+und\s+|\s+&\s+/)
+        .map(name => name.trim())
+        .filter(isPersonName) ?? [];
+    return {
+        legal_name: legalName,
+        register_number: register ? `${register[1]} ${register[2].replace(/\s/g, '')}` : null,
+        register_court: court?.[1].trim() ?? null,
+        managing_directors: directors,
+    };
+}
@@ -1,22 +1,88 @@
+export type PhoneCountry = 'DE' | 'AT' | 'CH';
 
+export type PhoneLineType = 'landline' | 'mobile' | 'special' | 'unknown';
 
-export function cleanPhoneNumber(phoneNumber: string | null): string | null {
-    if (!phoneNumber) return null;
-    phoneNumber = phoneNumber.replace(/\s/g, '');
-    phoneNumber = phoneNumber.replace(/^\+49/g, '0');
-    phoneNumber = phoneNumber.replace(/^0049/g, '0');
-    phoneNumber = phoneNumber.replace(/^\+43/g, '0043');
-    phoneNumber = phoneNumber.replace(/^0043/g, '0043');
-    phoneNumber = phoneNumber.replace(/^\+41/g, '0041');
-    phoneNumber = phoneNumber.replace(/^0041/g, '0041');
-    return phoneNumber;
+export type PhoneNumber = {
+    // dialable number in E.164 format, including the extension for direct dialing
+    e164: string;
+    original: string;
+    country: PhoneCountry;
+    line_type: PhoneLineType;
+    extension: string | null;
+};
+
+const COUNTRY_CODES: Record<string, PhoneCountry> = { 49: 'DE', 43: 'AT', 41: 'CH' };
+
+const EXTENSION_WORDS = /\s*[,;]?\s*(?:durchwahl|dw|apparat|app\.?|ext\.?|x)\s*:?\s*(\d{1,5})\s*$/i;
+
+function germanLineType(nationalNumber: string): PhoneLineType | null {
+    // 015x, 016x and 017x are mobile networks, their subscriber numbers have a fixed length
+    if (/^1[567]/.test(nationalNumber)) return nationalNumber.length >= 10 && nationalNumber.length <= 11 ? 'mobile' : null;
+    // service numbers: 0800 free call, 0180 shared cost, 0900 premium, 0700 personal, 032 national
+    if (/^(800|180|900|700|32)/.test(nationalNumber)) return nationalNumber.length >= 7 && nationalNumber.length <= 12 ? 'special' : null;
+    // geographic area codes are 02 to 09, area code plus subscriber number have 6 to 11 digits
+    if (/^[2-9]/.test(nationalNumber)) return nationalNumber.length >= 6 && nationalNumber.length <= 11 ? 'landline' : null;
+    return null;
 }
 
-export function findPhoneNumberInText(text: string | null): string | null {
-    if (!text) return null;
-    const phoneRegex = /(\+49|0049|\+43|0043|\+41|0041|0)\s*[1-9][0-9\s\/\-\(\)]{4,}/g;
-    const matches = text.match(phoneRegex);
-    if (!matches || matches.length === 0) return null;
-    const cleanedNumbers = matches.map(cleanPhoneNumber).filter(num => num !== null);
-    return cleanedNumbers.length > 0 ? cleanedNumbers[0] : null;
-}
\ No newline at end of file
+function isPlausible(country: PhoneCountry, nationalNumber: string) {
+    if (country === 'AT') return /^[1-9]\d{3,12}$/.test(nationalNumber);
+    if (country === 'CH') return /^[2-9]\d{8}$/.test(nationalNumber);
+    return germanLineType(nationalNumber) !== null;
+}
+
+type ParsedNumber = {
+    countryCode: string;
+    nationalNumber: string;
+    country: PhoneCountry;
+};
+
+function parseNumber(number: string): ParsedNumber | null {
+    if (/[^\d\s+/().-]/.test(number) || number.lastIndexOf('+') > 0) return null;
+    const digits = number.replace(/[^\d+]/g, '').replace(/^\+/, '00');
+    let countryCode: string;
+    let nationalNumber: string;
+    const international = digits.match(/^00(49|43|41)0?(\d+)$/);
+    if (international) {
+        [, countryCode, nationalNumber] = international;
+    } else if (/^0[1-9]/.test(digits)) {
+        countryCode = '49';
+        nationalNumber = digits.slice(1);
+    } else {
+        return null;
+    }
+    const country = COUNTRY_CODES[countryCode];
+    return isPlausible(country, nationalNumber) ? { countryCode, nationalNumber, country } : null;
+}
+
+function splitExtension(number: string): [string, string | null] {
+    const word = number.match(EXTENSION_WORDS);
+    if (word) return [number.slice(0, word.index), word[1]];
+    // "030 123456-78": a short block after a dash is the direct dial extension if the number before it is complete on
+    // its own, in "0171 123-4567" or "030-123456" the dash only groups the digits
+    const dash = number.match(/^(.*\d)\s*-\s*(\d{1,5})$/);
+    if (dash && parseNumber(dash[1])) return [dash[1], dash[2]];
+    return [number, null];
+}
+
+/**
+ * Normalizes a German, Austrian or Swiss phone number to E.164. Returns null for anything that is not a plausible
+ * number, like dates, postal codes or reference numbers that happen to look similar.
+ */
+export function normalizePhoneNumber(phoneNumber: string | null | undefined): PhoneNumber | null {
+    if (!phoneNumber) return null;
+    const original = phoneNumber.trim();
+    const [number, extension] = splitExtension(original.replace(/\(0\)/g, ''));
+    const parsed = parseNumber(number);
+    if (!parsed) return null;
+    const { countryCode, nationalNumber, country } = parsed;
+    const dialable = `${countryCode}${nationalNumber}${extension ?? ''}`;
+    if (dialable.length > 15) return null;
+    return {
+        e164: `+${dialable}`,
+        original,
+        country,
+        line_type: country === 'DE' ? germanLineType(nationalNumber)! : 'unknown',
+        extension,
+    };
+}
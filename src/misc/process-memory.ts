@@ -0,0 +1,20 @@
+import { readFile } from 'node:fs/promises';
+
+const MEMORY_PAGE_BYTES = 4096;
+
+/**
+ * Sums the resident memory of the given processes from /proc. Returns null where /proc is not available.
+ */
+export async function residentSetSize(pids: number[]) {
+    const sizes = await Promise.all(pids.map(async pid => {
+        try {
+            // statm: size resident shared text lib data dt, counted in memory pages
+            const statm = await readFile(`/proc/${pid}/statm`, 'utf8');
+            return +statm.split(' ')[1] * MEMORY_PAGE_BYTES;
+        } catch {
+            return null;
+        }
+    }));
+    const known = sizes.filter((size): size is number => size !== null);
+    return known.length > 0 ? known.reduce((sum, size) => sum + size, 0) : null;
+}
@@ -3,6 +3,8 @@ export async function exponentialBackoff<T>(
     fn: () => Promise<T>,
     maxRetries = 3,
     delay = 500,
+    // errors for which this returns false are thrown right away
+    isRetryable: (error: unknown) => boolean = () => true,
 ): Promise<T> {
     let attempt = 0;
     let error: any;
@@ -11,10 +13,26 @@ export async function exponentialBackoff<T>(
             return await fn();
         } catch (err) {
             error = err;
-            if (attempt === maxRetries - 1) throw error;
+            if (attempt === maxRetries - 1 || !isRetryable(err)) throw error;
             await new Promise(resolve => setTimeout(resolve, delay * Math.pow(2, attempt)));
             attempt++;
         }
     }
     throw error;
-}
\ No newline at end of file
+}
+
+/**
+ * Sends a JSON body and retries with backoff until the server accepts it with a 2xx status.
+ */
+export async function sendJson(url: string, body: string, options: { method?: string; headers?: Record<string, string>; maxRetries?: number } = {}) {
+    const { method = 'POST', headers = {}, maxRetries = 5 } = options;
+    await exponentialBackoff(async () => {
+        const response = await fetch(url, {
+            method,
+            headers: { 'Content-Type': 'application/json', ...headers },
+            body,
+            signal: AbortSignal.timeout(30000),
+        });
+        if (!response.ok) throw new Error(`${method} ${url} failed: ${response.status}`);
+    }, maxRetries, 1000);
+}
@@ -0,0 +1,49 @@
+type Rule = { allow: boolean; pattern: string };
+
+function ruleToRegex(pattern: string) {
+    const anchored = pattern.endsWith('$');
+    const body = (anchored ? pattern.slice(0, -1) : pattern)
+        .split('*')
+        .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+        .join('.*');
+    return new RegExp(`^${body}${anchored ? '$' : ''}`);
+}
+
+function rulesFor(robotsTxt: string, userAgent: string): Rule[] {
+    const groups: { agents: string[]; rules: Rule[] }[] = [];
+    let current: { agents: string[]; rules: Rule[] } | null = null;
+    for (const rawLine of robotsTxt.split(/\r?\n/)) {
+        const line = rawLine.replace(/#.*/, '').trim();
+        const separator = line.indexOf(':');
+        if (separator < 0) continue;
+        const field = line.slice(0, separator).trim().toLowerCase();
+        const value = line.slice(separator + 1).trim();
+        if (field === 'user-agent') {
+            // consecutive user-agent lines share one group of rules
+            if (!current || current.rules.length > 0) {
+                current = { agents: [], rules: [] };
+                groups.push(current);
+            }
+            current.agents.push(value.toLowerCase());
+        } else if ((field === 'allow' || field === 'disallow') && current && value) {
+            current.rules.push({ allow: field === 'allow', pattern: value });
+        }
+    }
+    const agent = userAgent.toLowerCase();
+    const specific = groups.filter(group => group.agents.some(name => name !== '*' && agent.includes(name)));
+    const matching = specific.length > 0 ? specific : groups.filter(group => group.agents.includes('*'));
+    return matching.flatMap(group => group.rules);
+}
+
+/**
+ * Checks a path against robots.txt rules: the longest matching rule wins, and allow wins over disallow on a tie.
+ */
+export function isAllowedByRobots(robotsTxt: string, path: string, userAgent = '*') {
+    let best: Rule | null = null;
+    for (const rule of rulesFor(robotsTxt, userAgent)) {
+        if (!ruleToRegex(rule.pattern).test(path)) continue;
+        if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow))
+            best = rule;
+    }
+    return best?.allow ?? true;
+}
@@ -0,0 +1,157 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { OccupationLevel, Posting } from './posting.js';
+
+const DEFAULT_TABLE_PATH = path.join(process.cwd(), 'src', 'data', 'kldb-occupations.json');
+
+// KldB 2010 Anforderungsniveau, the fifth digit of an occupation code
+const LEVELS: OccupationLevel[] = ['helfer', 'fachkraft', 'spezialist', 'experte'];
+
+// words in a title that set the level regardless of the occupation, strongest first
+const LEVEL_WORDS: [RegExp, OccupationLevel][] = [
+    [/ingenieur|\bmaster\b|\bdiplom|\bdr\b/, 'experte'],
+    [/meister|techniker\b|fachwirt|\bbachelor\b/, 'spezialist'],
+    [/helfer|hilfskraft|aushilfe|\bungelernt|\bangelernt/, 'helfer'],
+];
+
+const SENIORITY_WORDS = /\b(senior|junior|erfahrene[nrs]?|berufseinsteiger(in)?|quereinsteiger(in)?|ab sofort|in (voll|teil)zeit|(voll|teil)zeit|minijob)\b/gi;
+
+type OccupationTable = {
+    groups: { code: string; name: string; titles: Record<string, number> }[];
+};
+
+type TitleRule = {
+    tokens: string[];
+    // may also be the last part of a compound word, e.g. "fahrer" in "auslieferungsfahrer"
+    compound: boolean;
+    code: string;
+    group: string;
+    level: OccupationLevel;
+};
+
+export type Occupation = {
+    normalized_job_title: string | null;
+    occupation_code: string | null;
+    occupation_group: string | null;
+    occupation_level: OccupationLevel | null;
+};
+
+function escapeRegExp(text: string) {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Strips what does not describe the job from a posting title: gender markers, seniority and working time words and
+ * the place, e.g. "Zahnmedizinische/r Fachangestellte/r (m/w/d) in Köln" becomes "Zahnmedizinische Fachangestellte".
+ */
+export function normalizeJobTitle(title: string | null | undefined, city?: string | null) {
+    if (!title) return null;
+    let normalized = title
+        .replace(/\(\s*(?:[mwdfx]\s*[/|,]\s*){1,3}[mwdfx]\s*\)|\b[mwdfx]\s*\/\s*[mwdfx](?:\s*\/\s*[mwdfx])?\b/gi, ' ')
+        .replace(/\((?:all genders?|gn\*?|divers|m\/w|w\/m)\)/gi, ' ')
+        // "Kauffrau/-mann" and "Pflegefachmann/-frau"
+        .replace(/(\p{L}+)(frau|mann)\s*\/\s*-?\s*(?:\1)?(?:frau|mann)\b/giu, '$1mann')
+        // "Koch/Köchin"
+        .replace(/(\p{L}{3,})\s*\/\s*\p{L}+in\b/gu, '$1')
+        // "Erzieher/in", "Fachangestellte/r", "Mitarbeiter*in", "Lehrer:innen"
+        .replace(/(\p{L})(?:\s*\/\s*-?|\*|:|_|\()(?:in|innen|r|e|n)\)?(?=[^\p{L}]|$)/gu, '$1')
+        .replace(SENIORITY_WORDS, ' ');
+    if (city?.trim()) {
+        const place = escapeRegExp(city.trim().split(/[,(]/)[0].trim());
+        normalized = normalized.replace(new RegExp(`(?:[-–|]\\s*)?(?:\\b(?:in|im raum|am standort|standort|filiale)\\s+)?${place}(?:-\\p{L}+)?\\b`, 'giu'), ' ');
+    }
+    normalized = normalized
+        .replace(/\s*[-–|,/]\s*$|^\s*[-–|,/]\s*/g, '')
+        .replace(/\(\s*\)/g, ' ')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return normalized || null;
+}
+
+// lower case with umlauts written out and feminine endings removed, only used to look titles up
+function matchTokens(title: string) {
+    return title
+        .toLowerCase()
+        .replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue').replace(/ß/g, 'ss')
+        .replace(/frau\b/g, 'mann')
+        .split(/[^a-z0-9]+/)
+        .filter(Boolean)
+        .map(token => token.replace(/(\w{4,}?)(innen|in)$/, '$1'));
+}
+
+function matchesAt(tokens: string[], start: number, rule: TitleRule) {
+    return rule.tokens.every((token, i) => {
+        const candidate = tokens[start + i];
+        if (candidate === undefined) return false;
+        // only the first word of a rule can be the end of a compound
+        return candidate === token || (i === 0 && rule.compound && candidate.endsWith(token));
+    });
+}
+
+/**
+ * Maps job titles to a KldB 2010 Berufsgruppe (the first three digits of the occupation code) and Anforderungsniveau
+ * with the bundled table in `src/data/kldb-occupations.json`. The occupation the Bundesagentur assigned to a posting
+ * is looked up first, the title of the posting second.
+ */
+export class OccupationClassifier {
+
+    static async load(filePath = DEFAULT_TABLE_PATH): Promise<OccupationClassifier> {
+        const table = JSON.parse(await readFile(filePath, 'utf8')) as OccupationTable;
+        const rules = table.groups.flatMap(({ code, name, titles }) => Object.entries(titles).map(([title, level]) => ({
+            tokens: title.replace(/^\*/, '').split(' '),
+            compound: title.startsWith('*'),
+            code,
+            group: name,
+            level: LEVELS[level - 1],
+        })));
+        // the most specific title wins, "fachkraft fuer lagerlogistik" over "lagerist"
+        rules.sort((a, b) => b.tokens.join(' ').length - a.tokens.join(' ').length);
+        return new OccupationClassifier(rules);
+    }
+
+    private readonly rules: TitleRule[];
+
+    private constructor(rules: TitleRule[]) {
+        this.rules = rules;
+    }
+
+    classify(posting: Pick<Posting, 'raw_job_title' | 'city' | 'occupation'>): Occupation {
+        const normalizedTitle = normalizeJobTitle(posting.raw_job_title, posting.city);
+        const rule = this.findRule(normalizeJobTitle(posting.occupation)) ?? this.findRule(normalizedTitle);
+        const titleText = matchTokens(normalizedTitle ?? '').join(' ');
+        const level = LEVEL_WORDS.find(([pattern]) => pattern.test(titleText))?.[1] ?? rule?.level ?? null;
+        return {
+            normalized_job_title: normalizedTitle,
+            occupation_code: rule?.code ?? null,
+            occupation_group: rule?.group ?? null,
+            occupation_level: level,
+        };
+    }
+
+    classifyPostings(postings: Posting[]) {
+        for (const posting of postings)
+            Object.assign(posting, this.classify(posting));
+    }
+
+    private findRule(title: string | null) {
+        if (!title) return null;
+        const tokens = matchTokens(title);
+        return this.rules.find(rule => tokens.some((_, start) => matchesAt(tokens, start, rule))) ?? null;
+    }
+}
+
+/**
+ * Keeps postings whose occupation code starts with one of the given codes, so "81" selects all medical occupations.
+ * Postings the table cannot classify are left out.
+ */
+export function createOccupationFilter(classifier: OccupationClassifier, codes: string[]) {
+    const prefixes = codes.map(code => code.trim()).filter(Boolean);
+    return (posting: Posting) => {
+        const occupation = classifier.classify(posting);
+        Object.assign(posting, occupation);
+        const code = occupation.occupation_code;
+        // five digit codes are matched by their Berufsgruppe, the table knows no finer codes
+        return !!code && prefixes.some(prefix => code.startsWith(prefix) || prefix.startsWith(code));
+    };
+}
@@ -0,0 +1,176 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import type { PostalCodeStatus, Posting } from './posting.js';
+
+const DEFAULT_DATA_PATH = path.join(process.cwd(), 'src', 'data', 'postal-codes.json');
+
+const EARTH_RADIUS_KM = 6371;
+const SAME_PLACE_MAX_KM = 30;
+
+type PlaceRow = [postalCode: string, place: string, state: string, districtKey: string | null, latitude: number | null, longitude: number | null];
+
+type Place = {
+    postalCode: string;
+    name: string;
+    normalizedName: string;
+    state: string;
+    districtKey: string | null;
+    coordinates: Coordinates | null;
+};
+
+export type Coordinates = {
+    latitude: number;
+    longitude: number;
+};
+
+export type ResolvedLocation = {
+    postal_code: number | null;
+    postal_code_status: PostalCodeStatus;
+    state: string | null;
+    district_key: string | null;
+    latitude: number | null;
+    longitude: number | null;
+};
+
+// "Halle (Saale)", "St. Ingbert" and "Halle, Saale" written the same way
+function normalizePlace(name: string) {
+    return name
+        .toLowerCase()
+        .replace(/ß/g, 'ss').replace(/ä/g, 'ae').replace(/ö/g, 'oe').replace(/ü/g, 'ue')
+        .normalize('NFKD').replace(/[\u0300-\u036f]/g, '')
+        .split(',')[0]
+        .replace(/\b(st\.|sankt)\s*/g, 'sankt ')
+        .replace(/[^a-z0-9]+/g, ' ')
+        .trim();
+}
+
+// the result list writes some places with a district, e.g. "Hamburg Altona" for "Hamburg"
+function samePlace(a: string, b: string) {
+    return a === b || a.startsWith(`${b} `) || b.startsWith(`${a} `);
+}
+
+// places of one name that lie apart are different towns, not postal code areas of one city
+function isOnePlace(places: Place[]) {
+    const located = places.filter(place => place.coordinates).map(place => place.coordinates!);
+    return located.every(coordinates => distanceKm(located[0], coordinates) <= SAME_PLACE_MAX_KM);
+}
+
+function formatPostalCode(postalCode: number | string) {
+    return String(postalCode).padStart(5, '0');
+}
+
+export function distanceKm(a: Coordinates, b: Coordinates) {
+    const toRadians = (degrees: number) => degrees * Math.PI / 180;
+    const latitudeDelta = toRadians(b.latitude - a.latitude);
+    const longitudeDelta = toRadians(b.longitude - a.longitude);
+    const h = Math.sin(latitudeDelta / 2) ** 2
+        + Math.cos(toRadians(a.latitude)) * Math.cos(toRadians(b.latitude)) * Math.sin(longitudeDelta / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.sqrt(h));
+}
+
+/**
+ * Offline directory of German postal codes and the places they cover, bundled in `src/data/postal-codes.json`.
+ * Coordinates are those of the place, not of the postal code area, so all postal codes of a city share them.
+ */
+export class PostalCodeDirectory {
+
+    static async load(filePath = DEFAULT_DATA_PATH): Promise<PostalCodeDirectory> {
+        const data = JSON.parse(await readFile(filePath, 'utf8')) as { places: PlaceRow[] };
+        return new PostalCodeDirectory(data.places.map(([postalCode, name, state, districtKey, latitude, longitude]) => ({
+            postalCode,
+            name,
+            normalizedName: normalizePlace(name),
+            state,
+            districtKey,
+            coordinates: latitude === null || longitude === null ? null : { latitude, longitude },
+        })));
+    }
+
+    private readonly byPostalCode = new Map<string, Place[]>();
+    private readonly byName = new Map<string, Place[]>();
+
+    private constructor(places: Place[]) {
+        for (const place of places) {
+            this.byPostalCode.set(place.postalCode, [...this.byPostalCode.get(place.postalCode) ?? [], place]);
+            this.byName.set(place.normalizedName, [...this.byName.get(place.normalizedName) ?? [], place]);
+        }
+    }
+
+    get size() {
+        return this.byPostalCode.size;
+    }
+
+    has(postalCode: number | string) {
+        return this.byPostalCode.has(formatPostalCode(postalCode));
+    }
+
+    // coordinates of a postal code, taken from the first of its places that has some
+    locate(postalCode: number | string): Coordinates | null {
+        return this.byPostalCode.get(formatPostalCode(postalCode))?.find(place => place.coordinates)?.coordinates ?? null;
+    }
+
+    /**
+     * Checks a postal code against the city it was found with. A postal code that does not exist or belongs to a
+     * different place is replaced when the city has exactly one postal code, otherwise it is kept and flagged.
+     */
+    resolve(postalCode: number | null, city: string): ResolvedLocation {
+        const cityName = normalizePlace(city);
+        const cityPlaces = cityName ? this.placesNamed(cityName) : [];
+        const codePlaces = postalCode === null ? [] : this.byPostalCode.get(formatPostalCode(postalCode)) ?? [];
+
+        const matching = codePlaces.find(place => samePlace(place.normalizedName, cityName));
+        if (matching || (codePlaces.length > 0 && cityPlaces.length === 0))
+            return this.location(postalCode, 'valid', matching ?? codePlaces[0]);
+
+        const cityCodes = new Set(cityPlaces.map(place => place.postalCode));
+        if (cityCodes.size === 1)
+            return this.location(+cityPlaces[0].postalCode, 'corrected', cityPlaces[0]);
+        // the work location counts more than a postal code that may be the employer's head office, unless the name
+        // stands for several places like "Neustadt"
+        const status = postalCode !== null && codePlaces.length > 0 ? 'mismatch' : 'unknown';
+        return this.location(postalCode, status, isOnePlace(cityPlaces) ? cityPlaces[0] : undefined);
+    }
+
+    geocodePostings(postings: Posting[]) {
+        for (const posting of postings)
+            Object.assign(posting, this.resolve(posting.postal_code, posting.city));
+    }
+
+    private placesNamed(name: string) {
+        const exact = this.byName.get(name);
+        if (exact) return exact;
+        const prefix = name.split(' ')[0];
+        return [...this.byName.entries()]
+            .filter(([placeName]) => placeName.startsWith(prefix) && samePlace(placeName, name))
+            .flatMap(([, places]) => places);
+    }
+
+    private location(postalCode: number | null, status: PostalCodeStatus, place: Place | undefined): ResolvedLocation {
+        const coordinates = place ? place.coordinates ?? this.locate(place.postalCode) : null;
+        return {
+            postal_code: postalCode,
+            postal_code_status: status,
+            state: place?.state ?? null,
+            district_key: place?.districtKey ?? null,
+            latitude: coordinates?.latitude ?? null,
+            longitude: coordinates?.longitude ?? null,
+        };
+    }
+}
+
+/**
+ * Tells whether a posting lies within `maxDistanceKm` of a postal code, judged by the city and postal code of the
+ * result list. Postings that cannot be placed are kept, dropping them would lose leads silently.
+ */
+export function createAreaFilter(directory: PostalCodeDirectory, postalCode: string, maxDistanceKm: number) {
+    const center = directory.locate(postalCode);
+    if (!center) throw new Error(`Postal code ${postalCode} is not in the postal code directory or has no coordinates`);
+    return (posting: Posting) => {
+        const { latitude, longitude } = directory.resolve(posting.postal_code, posting.city);
+        if (latitude === null || longitude === null) return true;
+        const distance = Math.round(distanceKm(center, { latitude, longitude }) * 10) / 10;
+        Object.assign(posting, { distance_km: distance });
+        return distance <= maxDistanceKm;
+    };
+}
@@ -0,0 +1,35 @@
+import type { Posting } from './posting.js';
+import type { SeenStore } from './seen-store.js';
+
+type BatchOptions = {
+    seenStore?: SeenStore;
+    onlyNewPostings?: boolean;
+    // drops postings outside the searched area or occupations before their detail pages are visited
+    keepPosting?: (posting: Posting) => boolean;
+};
+
+/**
+ * Drops postings that were already scraped in this run (and, in only-new mode, in earlier runs) from a page of results
+ * and registers the remaining ones as scraped. `onlyKnown` tells whether the page consisted of known postings only.
+ * Postings that `keepPosting` rejects are registered as scraped as well, but left out and counted in `filteredOut`.
+ */
+export function takeUnscrapedPostings(postings: Posting[], scrapedIds: Set<string>, options: BatchOptions) {
+    const { seenStore, onlyNewPostings = false, keepPosting } = options;
+    const isKnown = (id: string) => scrapedIds.has(id) || (seenStore?.has(id) ?? false);
+    const onlyKnown = postings.length > 0 && postings.every(posting => isKnown(posting.arbeitsagentur_id));
+
+    let remaining = postings.filter(posting => !scrapedIds.has(posting.arbeitsagentur_id));
+    if (onlyNewPostings)
+        remaining = remaining.filter(posting => !seenStore?.has(posting.arbeitsagentur_id));
+    for (const posting of remaining)
+        scrapedIds.add(posting.arbeitsagentur_id);
+    const kept = keepPosting ? remaining.filter(keepPosting) : remaining;
+    return { postings: kept, onlyKnown, filteredOut: remaining.length - kept.length };
+}
+
+export function markSeen(postings: Posting[], seenStore: SeenStore | undefined) {
+    if (!seenStore) return;
+    const now = new Date();
+    for (const posting of postings)
+        Object.assign(posting, seenStore.sight(posting.arbeitsagentur_id, now, posting.enrichment_status !== 'failed'));
+}
@@ -0,0 +1,167 @@
+import type { Posting } from './posting.js';
+import type { JsonStorage } from './storage.js';
+
+const POSTING_HISTORY_KEY = 'POSTING_HISTORY';
+
+// fields read from the result list, they are known even when the detail page failed
+const LIST_FIELDS = ['company_name', 'city', 'raw_job_title', 'start_date'] as const;
+const DETAIL_FIELDS = ['postal_code', 'street', 'email', 'phone', 'website', 'salary', 'contract_type', 'positions', 'contact_person_name'] as const;
+
+type TrackedField = typeof LIST_FIELDS[number] | typeof DETAIL_FIELDS[number];
+
+type Snapshot = Partial<Record<TrackedField, string | number | null>>;
+
+type HistoryEntry = {
+    snapshot: Snapshot;
+    // the search url from the input that found the posting, searches split into parts share it
+    search_url: string | null;
+    status: 'active' | 'disappeared';
+    first_seen: string;
+    last_seen: string;
+    disappeared_at: string | null;
+};
+
+export type FieldChange = {
+    old: string | number | null;
+    new: string | number | null;
+};
+
+export type ChangeEvent = {
+    event: 'new' | 'updated' | 'disappeared';
+    arbeitsagentur_id: string;
+    company_name: string | null;
+    raw_job_title: string | null;
+    search_url: string | null;
+    changes: Partial<Record<TrackedField | 'status', FieldChange>> | null;
+    // disappeared postings only: whether a re-check confirmed that the detail page is gone
+    confirmed: boolean | null;
+    time: string;
+};
+
+function snapshotOf(posting: Posting): Snapshot {
+    const fields: readonly TrackedField[] = posting.enrichment_status === 'failed' ? LIST_FIELDS : [...LIST_FIELDS, ...DETAIL_FIELDS];
+    const snapshot: Snapshot = {};
+    for (const field of fields) {
+        const value = posting[field];
+        if (value !== undefined) snapshot[field] = typeof value === 'string' ? value.trim() : value;
+    }
+    return snapshot;
+}
+
+/**
+ * Remembers the tracked fields of every posting across runs, to report new, changed and delisted postings.
+ */
+export class PostingHistory {
+
+    static async open(storage: JsonStorage): Promise<PostingHistory> {
+        const entries = await storage.getValue<Record<string, HistoryEntry>>(POSTING_HISTORY_KEY);
+        return new PostingHistory(storage, new Map(Object.entries(entries ?? {})));
+    }
+
+    private readonly storage: JsonStorage;
+    private readonly entries: Map<string, HistoryEntry>;
+    // ids shown in a result list of this run, including postings that were skipped as already known
+    private readonly listedIds = new Set<string>();
+    private changed = false;
+
+    private constructor(storage: JsonStorage, entries: Map<string, HistoryEntry>) {
+        this.storage = storage;
+        this.entries = entries;
+    }
+
+    get size() {
+        return this.entries.size;
+    }
+
+    markListed(ids: string[]) {
+        for (const id of ids) this.listedIds.add(id);
+    }
+
+    record(postings: Posting[], searchUrl: string | null, now = new Date()): ChangeEvent[] {
+        const time = now.toISOString();
+        const events: ChangeEvent[] = [];
+        for (const posting of postings) {
+            const id = posting.arbeitsagentur_id;
+            this.listedIds.add(id);
+            this.changed = true;
+            const snapshot = snapshotOf(posting);
+            const entry = this.entries.get(id);
+            const details = { arbeitsagentur_id: id, company_name: posting.company_name, raw_job_title: posting.raw_job_title, confirmed: null, time };
+            if (!entry) {
+                this.entries.set(id, { snapshot, search_url: searchUrl, status: 'active', first_seen: time, last_seen: time, disappeared_at: null });
+                events.push({ event: 'new', ...details, search_url: searchUrl, changes: null });
+                continue;
+            }
+
+            const changes: ChangeEvent['changes'] = {};
+            for (const [field, value] of Object.entries(snapshot) as [TrackedField, string | number | null][]) {
+                const old = entry.snapshot[field];
+                if (old !== undefined && old !== value) changes[field] = { old, new: value };
+            }
+            if (entry.status === 'disappeared') changes.status = { old: 'disappeared', new: 'active' };
+            entry.snapshot = { ...entry.snapshot, ...snapshot };
+            entry.search_url = searchUrl ?? entry.search_url;
+            entry.status = 'active';
+            entry.last_seen = time;
+            entry.disappeared_at = null;
+            if (Object.keys(changes).length > 0)
+                events.push({ event: 'updated', ...details, search_url: entry.search_url, changes });
+        }
+        return events;
+    }
+
+    /**
+     * Active postings of the given searches that no result list of this run showed.
+     */
+    missingIds(searchUrls: string[]) {
+        const searched = new Set(searchUrls);
+        return [...this.entries.entries()]
+            .filter(([id, entry]) => entry.status === 'active' && entry.search_url && searched.has(entry.search_url) && !this.listedIds.has(id))
+            .map(([id]) => id);
+    }
+
+    markDisappeared(id: string, confirmed: boolean | null, now = new Date()): ChangeEvent | null {
+        const entry = this.entries.get(id);
+        if (!entry || entry.status === 'disappeared') return null;
+        const time = now.toISOString();
+        this.changed = true;
+        entry.status = 'disappeared';
+        entry.disappeared_at = time;
+        return {
+            event: 'disappeared',
+            arbeitsagentur_id: id,
+            company_name: (entry.snapshot.company_name as string | undefined) ?? null,
+            raw_job_title: (entry.snapshot.raw_job_title as string | undefined) ?? null,
+            search_url: entry.search_url,
+            changes: null,
+            confirmed,
+            time,
+        };
+    }
+
+    // a re-check found the posting online although no search showed it
+    markStillOnline(id: string, now = new Date()) {
+        const entry = this.entries.get(id);
+        if (!entry) return;
+        entry.last_seen = now.toISOString();
+        this.changed = true;
+    }
+
+    /**
+     * Forgets postings that no search or re-check showed since `cutoff`, delisted ones included. A forgotten posting
+     * that is listed again is reported as new. Returns the number of forgotten postings.
+     */
+    prune(cutoff: Date) {
+        const before = this.entries.size;
+        for (const [id, entry] of this.entries)
+            if (new Date(entry.last_seen) < cutoff) this.entries.delete(id);
+        if (this.entries.size < before) this.changed = true;
+        return before - this.entries.size;
+    }
+
+    async persist() {
+        if (!this.changed) return;
+        this.changed = false;
+        await this.storage.setValue(POSTING_HISTORY_KEY, Object.fromEntries(this.entries));
+    }
+}
@@ -0,0 +1,82 @@
+import type { CriterionScore, ScoreCriterion } from './lead-score.js';
+import type { Contact } from './misc/contact.js';
+import type { EmployerType } from './misc/employer-type.js';
+import type { PhoneNumber } from './misc/phone.js';
+import type { WebsiteDetails } from './website-enricher.js';
+
+export type ContractType = 'befristet' | 'unbefristet';
+
+export type ApplicationChannel = 'email' | 'online' | 'post' | 'phone' | 'in_person';
+
+// ok: detail page read completely, partial: some fields could not be read, failed: detail page never loaded
+export type EnrichmentStatus = 'ok' | 'partial' | 'failed';
+
+// valid: postal code lies in the city, corrected: replaced by the only postal code of the city,
+// mismatch: postal code belongs to another place, unknown: neither postal code nor city could be checked
+export type PostalCodeStatus = 'valid' | 'corrected' | 'mismatch' | 'unknown';
+
+// KldB 2010 Anforderungsniveau 1 to 4
+export type OccupationLevel = 'helfer' | 'fachkraft' | 'spezialist' | 'experte';
+
+export type Posting = {
+    company_name: string;
+    city: string;
+    arbeitsagentur_id: string;
+    start_date: string | null;
+    post_date: string | null;
+    raw_job_title: string | null;
+    // occupation the Bundesagentur assigned to the posting, shown next to the title
+    occupation?: string | null;
+    // title without gender markers, seniority words and place, and its KldB 2010 Berufsgruppe
+    normalized_job_title?: string | null;
+    occupation_code?: string | null;
+    occupation_group?: string | null;
+    occupation_level?: OccupationLevel | null;
+    postal_code: number | null;
+    street: string | null;
+    // from the bundled postal code directory, only set when postings are geocoded
+    postal_code_status?: PostalCodeStatus;
+    state?: string | null;
+    // Kreisschlüssel, the first five digits of the municipality key
+    district_key?: string | null;
+    latitude?: number | null;
+    longitude?: number | null;
+    // only set when searching within a distance of a postal code
+    distance_km?: number | null;
+    email: string | null;
+    // E.164, details of the number are in `phone_details`
+    phone: string | null;
+    phone_details?: PhoneNumber | null;
+    website: string | null;
+    company_size: number | null;
+    // links the posting to its record in the company dataset
+    company_key?: string;
+    from_search_url?: string;
+    is_new?: boolean;
+    first_seen?: string;
+    last_seen?: string;
+    // job detail fields, each one stays unset if the detail page does not show it
+    salary?: string | null;
+    working_time?: string[] | null;
+    contract_type?: ContractType | null;
+    contract_duration?: string | null;
+    reference_number?: string | null;
+    positions?: number | null;
+    qualifications?: string[] | null;
+    contact_person_name?: string | null;
+    contact_person_title?: string | null;
+    application_channels?: ApplicationChannel[] | null;
+    description?: string | null;
+    // every email, phone and fax number found, best application contact first
+    contacts?: Contact[] | null;
+    // contacts and Impressum data from the employer website, only set when the website was crawled
+    website_details?: WebsiteDetails | null;
+    // why the employer website was not crawled although the posting lacks contacts
+    website_error?: string | null;
+    employer_type?: EmployerType;
+    // 0 to 100, how promising the posting is as a sales lead, explained per criterion in the breakdown
+    lead_score?: number;
+    lead_score_breakdown?: Partial<Record<ScoreCriterion, CriterionScore>>;
+    enrichment_status?: EnrichmentStatus;
+    enrichment_error?: string | null;
+}
@@ -0,0 +1,72 @@
+import { randomBytes } from 'node:crypto';
+
+import { Actor } from 'apify';
+
+import { ProxySession } from './proxy-session.js';
+
+// what the proxy editor of the input schema produces
+export type ProxyInput = {
+    useApifyProxy?: boolean;
+    apifyProxyGroups?: string[];
+    apifyProxyCountry?: string;
+    proxyUrls?: string[];
+};
+
+export type ProxyRotationOptions = {
+    // failed navigations in a row after which a session is retired
+    maxSessionErrors?: number;
+};
+
+type ProxyUrlSource = {
+    newUrl(sessionId?: string): Promise<string | undefined>;
+};
+
+export type PlaywrightProxy = {
+    server: string;
+    username?: string;
+    password?: string;
+};
+
+// Playwright takes the credentials apart from the server
+export function toPlaywrightProxy(proxyUrl: string): PlaywrightProxy {
+    const url = new URL(proxyUrl);
+    return {
+        server: `${url.protocol}//${url.host}`,
+        username: url.username ? decodeURIComponent(url.username) : undefined,
+        password: url.password ? decodeURIComponent(url.password) : undefined,
+    };
+}
+
+/**
+ * Hands every crawler its own proxy session, from Apify Proxy groups or a list of proxy URLs.
+ */
+export class ProxyRotation {
+
+    /**
+     * Returns null when the input asks for no proxy.
+     */
+    static async create(input: ProxyInput | undefined, options: ProxyRotationOptions = {}): Promise<ProxyRotation | null> {
+        if (!input?.useApifyProxy && !input?.proxyUrls?.length) return null;
+        const source = await Actor.createProxyConfiguration(input);
+        if (!source) return null;
+        return new ProxyRotation(source, options.maxSessionErrors ?? 3);
+    }
+
+    private readonly source: ProxyUrlSource;
+    private readonly maxSessionErrors: number;
+    // Apify Proxy keeps the IP of a session id for a while, so ids must not repeat across runs
+    private readonly runId = randomBytes(4).toString('hex');
+    private sessionCount = 0;
+
+    private constructor(source: ProxyUrlSource, maxSessionErrors: number) {
+        this.source = source;
+        this.maxSessionErrors = maxSessionErrors;
+    }
+
+    async newSession() {
+        const id = `session_${this.runId}_${++this.sessionCount}`;
+        const url = await this.source.newUrl(id);
+        if (!url) throw new Error('The proxy configuration gave no proxy URL');
+        return new ProxySession(id, url, this.maxSessionErrors);
+    }
+}
@@ -0,0 +1,37 @@
+/**
+ * The proxy of one crawler. With Apify Proxy the session id keeps the same IP, custom proxy URLs are handed out one
+ * per session. A session is retired after repeated failures or right away on a block signal.
+ */
+export class ProxySession {
+
+    readonly id: string;
+    readonly url: string;
+    private readonly maxErrors: number;
+    private errors = 0;
+    private retiredBecause: string | null = null;
+
+    constructor(id: string, url: string, maxErrors: number) {
+        this.id = id;
+        this.url = url;
+        this.maxErrors = maxErrors;
+    }
+
+    get retireReason() {
+        return this.retiredBecause;
+    }
+
+    markGood() {
+        this.errors = 0;
+    }
+
+    markBad(reason: string) {
+        this.errors++;
+        if (this.errors >= this.maxErrors) this.retire(`${this.errors} failures in a row, last: ${reason}`);
+    }
+
+    retire(reason: string) {
+        if (this.retiredBecause) return;
+        this.retiredBecause = reason;
+        console.warn(`Retiring proxy session ${this.id}: ${reason}`);
+    }
+}
@@ -0,0 +1,59 @@
+export type RateLimiterOptions = {
+    requestsPerMinute: number;
+    // random extra wait of up to this many milliseconds before every request
+    jitterMs?: number;
+    // how far throttling responses slow the requests down, as a multiple of the configured interval
+    maxSlowdown?: number;
+};
+
+// share of the slowdown that every successful request takes back
+const RECOVERY_FACTOR = 0.95;
+
+/**
+ * Spaces out the requests of all crawlers that share it, so raising the number of crawlers does not raise the request
+ * rate. Signs of throttling (429 and 5xx responses, captcha pages) double the interval between requests, successful
+ * requests bring it back step by step.
+ */
+export class RateLimiter {
+
+    private readonly intervalMs: number;
+    private readonly jitterMs: number;
+    private readonly maxSlowdown: number;
+    private slowdown = 1;
+    private nextSlot = 0;
+
+    constructor(options: RateLimiterOptions) {
+        this.intervalMs = 60000 / Math.max(1, options.requestsPerMinute);
+        this.jitterMs = options.jitterMs ?? 0;
+        this.maxSlowdown = Math.max(1, options.maxSlowdown ?? 16);
+    }
+
+    get requestsPerMinute() {
+        return Math.round(60000 / (this.intervalMs * this.slowdown));
+    }
+
+    /**
+     * Resolves when the next request may be sent. Callers get their slots in the order they asked for them.
+     */
+    async acquire() {
+        const now = Date.now();
+        const slot = Math.max(now, this.nextSlot);
+        this.nextSlot = slot + this.intervalMs * this.slowdown;
+        const wait = slot - now + Math.random() * this.jitterMs;
+        if (wait > 0) {
+            await new Promise(resolve => {
+                setTimeout(resolve, wait);
+            });
+        }
+    }
+
+    reportThrottled(reason: string) {
+        if (this.slowdown >= this.maxSlowdown) return;
+        this.slowdown = Math.min(this.maxSlowdown, this.slowdown * 2);
+        console.warn(`Slowing down to ${this.requestsPerMinute} requests per minute: ${reason}`);
+    }
+
+    reportSuccess() {
+        this.slowdown = Math.max(1, this.slowdown * RECOVERY_FACTOR);
+    }
+}
@@ -0,0 +1,43 @@
+import { mkdir, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { JOB_SEARCH_START_URL } from './arbeitsagentur-crawler.js';
+import { Crawler } from './crawler.js';
+import { fixtureFileName } from './fixtures.js';
+import { elementId, RESULT_LIST } from './selectors.js';
+
+/**
+ * Saves the rendered pages as fixtures. For result pages the first job detail page is saved as well. Scripts are
+ * removed, the saved DOM is what the extraction reads. The job search start page that company crawlers open first is
+ * always saved.
+ */
+async function recordFixtures(urls: string[], directory: string) {
+    await mkdir(directory, { recursive: true });
+    const crawler = await Crawler.create({ iDontCareAboutCookies: true });
+    const save = async (url: string) => {
+        const html = (await crawler.getHtml()).replace(/<script\b[\s\S]*?<\/script>/gi, '');
+        const file = path.join(directory, fixtureFileName(url));
+        await writeFile(file, html);
+        console.log(`Saved ${url} to ${file}`);
+    };
+    try {
+        for (const url of urls) {
+            await crawler.goto(url);
+            await save(url);
+            const detailUrl = await crawler.getLinkUrl(elementId(RESULT_LIST.link), true);
+            if (!detailUrl) continue;
+            await crawler.goto(detailUrl);
+            await save(detailUrl);
+        }
+    } finally {
+        await crawler.close();
+    }
+}
+
+// usage: npm run record-fixtures -- <directory> <url>...
+const [directory, ...urls] = process.argv.slice(2);
+if (!directory || urls.length === 0) {
+    console.error('Usage: npm run record-fixtures -- <directory> <url>...');
+    process.exit(1);
+}
+await recordFixtures([JOB_SEARCH_START_URL, ...urls.filter(url => url !== JOB_SEARCH_START_URL)], directory);
@@ -0,0 +1,136 @@
+import type { Crawler } from './crawler.js';
+import type { Posting } from './posting.js';
+import { RESULT_LIST } from './selectors.js';
+
+// what a card of the result list shows, the texts as they are on the page
+export type ResultCard = {
+    arbeitsagentur_id: string;
+    company: string;
+    title: string | null;
+    location: string | null;
+    startDate: string | null;
+    postDate: string | null;
+};
+
+// element ids of a card, `{i}` stands for the position the site gave the card
+type CardIds = {
+    link: string;
+    company: string;
+    title: string;
+    location: string;
+    startDate: string;
+    postDate: string;
+};
+
+const CARD_IDS: CardIds = {
+    link: RESULT_LIST.link.id,
+    company: RESULT_LIST.company.id,
+    title: RESULT_LIST.title.id,
+    location: RESULT_LIST.location.id,
+    startDate: RESULT_LIST.startDate.id,
+    postDate: RESULT_LIST.postDate.id,
+};
+
+/**
+ * The listing data of a posting, before its detail page is read. Cards show labels for screen readers in front of the
+ * values and the publication date as "Veröffentlichungsdatum: dd.mm.yyyy".
+ */
+export function postingFromCard(card: ResultCard): Omit<Posting, 'company' | 'country'> {
+    const cleanPostDate = card.postDate ? card.postDate.replace('Veröffentlichungsdatum: ', '') : null;
+    const date = cleanPostDate ? new Date(+cleanPostDate.slice(6, 10), +cleanPostDate.slice(3, 5) - 1, +cleanPostDate.slice(0, 2)) : null;
+    return {
+        company_name: card.company.replace('Arbeitgeber:\n', '').trim(),
+        city: card.location?.replace('Arbeitsort:\n', '').trim() ?? '',
+        arbeitsagentur_id: card.arbeitsagentur_id,
+        start_date: card.startDate?.trim() ?? null,
+        post_date: date ? date.toISOString() : null,
+        raw_job_title: card.title?.replace('Berufsbezeichnung:\n', '') ?? null,
+        postal_code: null,
+        street: null,
+        email: null,
+        phone: null,
+        website: null,
+        company_size: null,
+    };
+}
+
+/**
+ * Reads the cards of the result list in one round-trip per page. The list is virtual: after "weitere laden" the site
+ * may render earlier cards again or number them differently, so cards are told apart by posting id rather than by
+ * position, and the page is left as it is.
+ */
+export class ResultListReader {
+
+    private readonly crawler: Pick<Crawler, 'evaluate'>;
+    private readonly readIds = new Set<string>();
+
+    constructor(crawler: Pick<Crawler, 'evaluate'>) {
+        this.crawler = crawler;
+    }
+
+    /**
+     * Returns the cards on the page that were not read before, in the order of the list.
+     */
+    async readNewCards() {
+        const cards = await this.crawler.evaluate((ids: CardIds) => {
+            const linkPrefix = ids.link.slice(0, ids.link.indexOf('{i}'));
+            return [...document.querySelectorAll<HTMLAnchorElement>(`a[id^="${linkPrefix}"]`)].map(link => {
+                const [company, title, location, startDate, postDate] = [ids.company, ids.title, ids.location, ids.startDate, ids.postDate]
+                    .map(id => document.getElementById(id.replace('{i}', link.id.slice(linkPrefix.length))));
+                return {
+                    arbeitsagentur_id: link.href.split('/').pop() ?? '',
+                    company: company?.innerText ?? null,
+                    title: title?.innerText ?? null,
+                    location: location?.innerText ?? null,
+                    startDate: startDate?.innerText ?? null,
+                    postDate: postDate?.title ?? null,
+                };
+            });
+        }, CARD_IDS);
+        const newCards: ResultCard[] = [];
+        for (const card of cards) {
+            // cards that are still rendering have no company yet, they are read on the next call
+            if (!card.arbeitsagentur_id || card.company === null || this.readIds.has(card.arbeitsagentur_id)) continue;
+            this.readIds.add(card.arbeitsagentur_id);
+            newCards.push({ ...card, company: card.company });
+        }
+        return newCards;
+    }
+
+    /**
+     * Waits until the page shows a card that was not read yet, e.g. after "weitere laden" was clicked. Returns false if
+     * none appeared within the timeout.
+     */
+    async waitForNewCards(timeoutMs = 10000) {
+        return this.crawler.evaluate(async ({ ids, readIds, timeout }) => {
+            const linkPrefix = ids.link.slice(0, ids.link.indexOf('{i}'));
+            const known = new Set(readIds);
+            const companyPrefix = ids.company.slice(0, ids.company.indexOf('{i}'));
+            // a method, as tsx would wrap a function in a variable into a `__name` helper that the page does not have
+            const list = {
+                hasNewCard() {
+                    return [...document.querySelectorAll<HTMLAnchorElement>(`a[id^="${linkPrefix}"]`)].some(link => !known.has(link.href.split('/').pop() ?? '')
+                        && document.getElementById(ids.company.replace('{i}', link.id.slice(linkPrefix.length))) !== null);
+                },
+            };
+            if (list.hasNewCard()) return true;
+            return new Promise<boolean>(resolve => {
+                const observer = new MutationObserver((mutations, self) => {
+                    // only look again when cards were added or reused for another posting, not on every text change
+                    const cardSelector = `[id^="${linkPrefix}"], [id^="${companyPrefix}"]`;
+                    const cardsChanged = mutations.some(mutation => mutation.type === 'attributes'
+                        || [...mutation.addedNodes].some(node => node instanceof Element && (node.matches(cardSelector) || node.querySelector(cardSelector) !== null)));
+                    if (!cardsChanged || !list.hasNewCard()) return;
+                    self.disconnect();
+                    resolve(true);
+                });
+                observer.observe(document.body, { childList: true, subtree: true, attributes: true, attributeFilter: ['href'] });
+                // resolving a second time does nothing, so the timer can stay when a card came first
+                setTimeout(() => {
+                    observer.disconnect();
+                    resolve(false);
+                }, timeout);
+            });
+        }, { ids: CARD_IDS, readIds: [...this.readIds], timeout: timeoutMs });
+    }
+}
@@ -0,0 +1,53 @@
+export type RunBudgetOptions = {
+    // page loads and API requests to arbeitsagentur.de, retries included
+    maxRequests?: number;
+    maxDetailPages?: number;
+    // no new work is started after this time
+    deadline?: Date;
+};
+
+/**
+ * Limits of a run that all crawlers share. Once one of them is used up, result lists stop paging, no further searches
+ * are started and postings still waiting for their detail page are saved without it, marked as failed so a later run
+ * can retry them.
+ */
+export class RunBudget {
+
+    private readonly options: RunBudgetOptions;
+    private requests = 0;
+    private detailPages = 0;
+    private stoppedBecause: string | null = null;
+
+    constructor(options: RunBudgetOptions) {
+        this.options = options;
+    }
+
+    // why the run stopped early, once a check noticed it
+    get stopReason() {
+        return this.stoppedBecause;
+    }
+
+    countRequest() {
+        this.requests++;
+    }
+
+    /**
+     * Counts a detail page, or returns false if the budget has no room for it.
+     */
+    takeDetailPage() {
+        if (this.exhaustedReason()) return false;
+        this.detailPages++;
+        return true;
+    }
+
+    // the limit that is used up, or null while there is budget left
+    exhaustedReason() {
+        if (this.stoppedBecause) return this.stoppedBecause;
+        const { maxRequests, maxDetailPages, deadline } = this.options;
+        if (maxRequests !== undefined && this.requests >= maxRequests) this.stoppedBecause = `request limit of ${maxRequests} reached`;
+        else if (maxDetailPages !== undefined && this.detailPages >= maxDetailPages) this.stoppedBecause = `detail page limit of ${maxDetailPages} reached`;
+        else if (deadline && Date.now() >= deadline.getTime()) this.stoppedBecause = `deadline ${deadline.toISOString()} reached`;
+        if (this.stoppedBecause) console.warn(`Stopping the run early: ${this.stoppedBecause}`);
+        return this.stoppedBecause;
+    }
+}
@@ -0,0 +1,60 @@
+import { Actor } from 'apify';
+
+import type { JsonStorage } from './storage.js';
+import { openJsonStorage } from './storage.js';
+
+/**
+ * A list of records that only grows, e.g. the saved postings or the change events.
+ */
+export interface RecordStore {
+    push(records: object[]): Promise<void>;
+    getItems(): Promise<Record<string, unknown>[]>;
+}
+
+/**
+ * Where a scraper run keeps its state and results. The actor uses datasets and key-value stores of the Apify
+ * platform, the command line local files (see `local-environment.ts`).
+ */
+export interface RunEnvironment {
+    // storage that survives across runs, without a name the one of the current run
+    openStorage(name?: string): JsonStorage;
+    // without a name the main result list
+    openRecords(name?: string): Promise<RecordStore>;
+    // reports and export files, strings and buffers are saved as they are, anything else as JSON
+    saveFile(key: string, value: unknown, contentType?: string): Promise<void>;
+    // called before the run is interrupted, e.g. by a migration or Ctrl+C
+    onPersistState(handler: () => Promise<void>): void;
+    // ends the run as failed
+    fail(message: string): Promise<void>;
+    // when the platform will end the run, null without a time limit
+    readonly timeoutAt: Date | null;
+}
+
+export type FileSaver = Pick<RunEnvironment, 'saveFile'>;
+
+export function apifyEnvironment(): RunEnvironment {
+    return {
+        openStorage: openJsonStorage,
+        async openRecords(name) {
+            const dataset = await Actor.openDataset(name);
+            return {
+                async push(records) {
+                    await dataset.pushData(records);
+                },
+                async getItems() {
+                    return (await dataset.getData()).items;
+                },
+            };
+        },
+        async saveFile(key, value, contentType) {
+            await Actor.setValue(key, value, contentType ? { contentType } : undefined);
+        },
+        onPersistState(handler) {
+            Actor.on('persistState', handler);
+        },
+        async fail(message) {
+            await Actor.fail(message);
+        },
+        timeoutAt: Actor.getEnv().timeoutAt,
+    };
+}
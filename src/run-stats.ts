@@ -0,0 +1,212 @@
+import type { CrawlerRestartEvent } from './crawler.js';
+import type { Posting } from './posting.js';
+import type { FileSaver } from './run-environment.js';
+
+export const REPORT_KEY = 'RUN_REPORT';
+export const SUMMARY_KEY = 'RUN_REPORT_SUMMARY';
+
+const FILLED_FIELDS = ['email', 'phone', 'website', 'postal_code'] as const;
+
+// below this many saved postings an empty field says nothing about the scraper
+const MIN_POSTINGS_FOR_WARNINGS = 20;
+
+export type TimingKind = 'navigation' | 'extraction';
+
+export type SearchStats = {
+    url: string;
+    pages_loaded: number;
+    // postings in the result list, including the ones already scraped in this run
+    postings_listed: number;
+    duplicate_postings: number;
+    // left out by the distance, occupation and company filters, most of them before enrichment
+    postings_filtered: number;
+    postings_saved: number;
+    new_postings: number;
+    details_ok: number;
+    details_partial: number;
+    details_failed: number;
+    details_retried: number;
+    filled: Record<typeof FILLED_FIELDS[number], number>;
+    started_at: string;
+    finished_at: string | null;
+};
+
+export type TimingPercentiles = {
+    count: number;
+    p50_ms: number | null;
+    p90_ms: number | null;
+    p99_ms: number | null;
+};
+
+export type RunReport = {
+    started_at: string;
+    updated_at: string;
+    searches: (SearchStats & { fill_rates: Record<string, number | null> })[];
+    timings: Record<TimingKind, TimingPercentiles>;
+    browser_restarts: { reason: string; time: string }[];
+    // the budget or deadline that ended the run before all searches were done
+    stop_reason: string | null;
+    warnings: string[];
+};
+
+function percentile(sorted: number[], share: number) {
+    if (sorted.length === 0) return null;
+    return sorted[Math.min(sorted.length - 1, Math.ceil(share * sorted.length) - 1)];
+}
+
+function percentiles(samples: number[]): TimingPercentiles {
+    const sorted = [...samples].sort((a, b) => a - b);
+    return { count: sorted.length, p50_ms: percentile(sorted, 0.5), p90_ms: percentile(sorted, 0.9), p99_ms: percentile(sorted, 0.99) };
+}
+
+function formatRate(rate: number | null) {
+    return rate === null ? '-' : `${Math.round(rate * 100)}%`;
+}
+
+function formatDuration(milliseconds: number | null) {
+    return milliseconds === null ? '-' : `${milliseconds} ms`;
+}
+
+/**
+ * Counts what happened per search url during the run and saves it as `RUN_REPORT` (JSON) and `RUN_REPORT_SUMMARY`
+ * (Markdown) to the run's key-value store or output files. Crawlers update the counters of `search(url)` directly.
+ */
+export class RunStats {
+
+    private readonly startedAt = new Date().toISOString();
+    private readonly searches = new Map<string, SearchStats>();
+    private readonly timings: Record<TimingKind, number[]> = { navigation: [], extraction: [] };
+    private readonly browserRestarts: { reason: string; time: string }[] = [];
+    private readonly files: FileSaver;
+    private stopReason: string | null = null;
+
+    constructor(files: FileSaver) {
+        this.files = files;
+    }
+
+    search(url: string | undefined): SearchStats {
+        // postings retried by id belong to no search
+        const key = url ?? 'retry';
+        let stats = this.searches.get(key);
+        if (!stats) {
+            stats = {
+                url: key,
+                pages_loaded: 0,
+                postings_listed: 0,
+                duplicate_postings: 0,
+                postings_filtered: 0,
+                postings_saved: 0,
+                new_postings: 0,
+                details_ok: 0,
+                details_partial: 0,
+                details_failed: 0,
+                details_retried: 0,
+                filled: { email: 0, phone: 0, website: 0, postal_code: 0 },
+                started_at: new Date().toISOString(),
+                finished_at: null,
+            };
+            this.searches.set(key, stats);
+        }
+        return stats;
+    }
+
+    recordTiming(kind: TimingKind, milliseconds: number) {
+        this.timings[kind].push(milliseconds);
+    }
+
+    recordBrowserRestart(event: CrawlerRestartEvent) {
+        this.browserRestarts.push({ reason: event.reason, time: event.time });
+    }
+
+    recordSavedPostings(postings: Posting[]) {
+        for (const posting of postings) {
+            const stats = this.search(posting.from_search_url);
+            stats.postings_saved++;
+            if (posting.is_new) stats.new_postings++;
+            if (posting.enrichment_status === 'ok') stats.details_ok++;
+            if (posting.enrichment_status === 'partial') stats.details_partial++;
+            if (posting.enrichment_status === 'failed') stats.details_failed++;
+            for (const field of FILLED_FIELDS) {
+                if (posting[field] !== null && posting[field] !== undefined && posting[field] !== '') stats.filled[field]++;
+            }
+        }
+    }
+
+    recordFilteredPostings(postings: Posting[]) {
+        for (const posting of postings)
+            this.search(posting.from_search_url).postings_filtered++;
+    }
+
+    recordStop(reason: string) {
+        this.stopReason = reason;
+    }
+
+    finishSearch(url: string) {
+        this.search(url).finished_at = new Date().toISOString();
+    }
+
+    report(): RunReport {
+        const warnings: string[] = this.stopReason ? [`Run stopped early: ${this.stopReason}`] : [];
+        const searches = [...this.searches.values()].map(stats => {
+            const fillRates = Object.fromEntries(FILLED_FIELDS.map(field => [
+                field,
+                stats.postings_saved > 0 ? stats.filled[field] / stats.postings_saved : null,
+            ]));
+            if (stats.postings_saved >= MIN_POSTINGS_FOR_WARNINGS) {
+                for (const field of FILLED_FIELDS) {
+                    if (stats.filled[field] === 0) warnings.push(`No ${field} found in ${stats.postings_saved} postings of ${stats.url}`);
+                }
+                if (stats.details_failed > stats.postings_saved / 2)
+                    warnings.push(`${stats.details_failed} of ${stats.postings_saved} detail pages failed for ${stats.url}`);
+            }
+            if (stats.finished_at && stats.pages_loaded > 0 && stats.postings_listed === 0)
+                warnings.push(`Result list of ${stats.url} showed no postings`);
+            return { ...stats, fill_rates: fillRates };
+        });
+        return {
+            started_at: this.startedAt,
+            updated_at: new Date().toISOString(),
+            searches,
+            timings: { navigation: percentiles(this.timings.navigation), extraction: percentiles(this.timings.extraction) },
+            browser_restarts: this.browserRestarts,
+            stop_reason: this.stopReason,
+            warnings,
+        };
+    }
+
+    async persist() {
+        const report = this.report();
+        await this.files.saveFile(REPORT_KEY, report);
+        await this.files.saveFile(SUMMARY_KEY, reportToMarkdown(report), 'text/markdown');
+    }
+}
+
+export function reportToMarkdown(report: RunReport) {
+    const lines = [
+        '# Run report',
+        '',
+        `Started ${report.started_at}, updated ${report.updated_at}`,
+        '',
+    ];
+    if (report.warnings.length > 0) {
+        lines.push('## Warnings', '', ...report.warnings.map(warning => `- ${warning}`), '');
+    }
+    lines.push(
+        '## Searches',
+        '',
+        '| Search | Pages | Listed | Duplicates | Filtered | Saved | New | Details ok / partial / failed / retried | Email | Phone | Website | Postal code |',
+        '| --- | ---: | ---: | ---: | ---: | ---: | ---: | --- | ---: | ---: | ---: | ---: |',
+    );
+    for (const search of report.searches) {
+        const details = `${search.details_ok} / ${search.details_partial} / ${search.details_failed} / ${search.details_retried}`;
+        const rates = FILLED_FIELDS.map(field => formatRate(search.fill_rates[field])).join(' | ');
+        lines.push(`| ${search.url} | ${search.pages_loaded} | ${search.postings_listed} | ${search.duplicate_postings} | ${search.postings_filtered} | ${search.postings_saved} | ${search.new_postings} | ${details} | ${rates} |`);
+    }
+    lines.push('', '## Timings', '', '| Step | Count | p50 | p90 | p99 |', '| --- | ---: | ---: | ---: | ---: |');
+    for (const [kind, timing] of Object.entries(report.timings))
+        lines.push(`| ${kind} | ${timing.count} | ${formatDuration(timing.p50_ms)} | ${formatDuration(timing.p90_ms)} | ${formatDuration(timing.p99_ms)} |`);
+    if (report.browser_restarts.length > 0) {
+        lines.push('', '## Browser restarts', '', ...report.browser_restarts.map(restart => `- ${restart.time}: ${restart.reason}`));
+    }
+    return `${lines.join('\n')}\n`;
+}
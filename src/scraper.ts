@@ -0,0 +1,368 @@
+
+import { ArbeitsagenturCrawler } from './arbeitsagentur-crawler.js';
+import { Checkpoint } from './checkpoint.js';
+import { CompanyStore } from './company-store.js';
+import { failedPostingRecords, postingsToRetry } from './failed-postings.js';
+import { JobsucheApiCrawler } from './jobsuche-api-crawler.js';
+import { LayoutChangedError } from './layout-canary.js';
+import type { ScoreCriterion } from './lead-score.js';
+import { createCompanyFilter, LeadScorer } from './lead-score.js';
+import type { EmployerType } from './misc/employer-type.js';
+import { createOccupationFilter, OccupationClassifier } from './occupation.js';
+import { createAreaFilter, PostalCodeDirectory } from './postal-code-directory.js';
+import type { Posting } from './posting.js';
+import type { ChangeEvent } from './posting-history.js';
+import { PostingHistory } from './posting-history.js';
+import type { ProxyInput } from './proxy-rotation.js';
+import { ProxyRotation } from './proxy-rotation.js';
+import { RateLimiter } from './rate-limiter.js';
+import { RunBudget } from './run-budget.js';
+import type { RunEnvironment } from './run-environment.js';
+import { RunStats } from './run-stats.js';
+import { estimateCoverage, planSearches } from './search-splitter.js';
+import type { JobSearch } from './search-url.js';
+import { buildSearchUrl, DEFAULT_SEARCH, parseSearchUrl, validateSearch } from './search-url.js';
+import { SeenStore } from './seen-store.js';
+import type { OutputSinkConfig } from './sinks/output-sink.js';
+import { createOutputSinks } from './sinks/output-sink.js';
+import { WebsiteEnricher } from './website-enricher.js';
+
+// stores that carry over from run to run
+export const SEEN_POSTINGS_STORE = 'arbeitsagentur-seen-postings';
+export const COMPANIES_STORE = 'arbeitsagentur-companies';
+export const POSTING_HISTORY_STORE = 'arbeitsagentur-posting-history';
+export const DEFAULT_FAILED_DATASET = 'arbeitsagentur-failed-postings';
+
+// time before the platform timeout in which no new work is started, for in-flight detail pages and saving
+const SHUTDOWN_MARGIN_MS = 5 * 60 * 1000;
+
+export interface ScraperInput extends OutputSinkConfig {
+    parallelCompanyCrawlers?: number;
+    maxCompanyCrawlers?: number;
+    maxDetailBacklog?: number;
+    maxRequestsPerCrawl?: number;
+    maxRequestsPerMinute?: number;
+    requestJitterMs?: number;
+    maxPostingsPerSearch?: number;
+    maxDetailPages?: number;
+    maxRunTimeSecs?: number;
+    proxyConfiguration?: ProxyInput;
+    maxProxySessionErrors?: number;
+    searchUrls?: string[];
+    searches?: JobSearch[];
+    onlyNewPostings?: boolean;
+    dataSource?: 'browser' | 'api';
+    apiBaseUrl?: string;
+    splitLargeSearches?: boolean;
+    resultListLimit?: number;
+    companyDatasetName?: string;
+    enrichFromWebsites?: boolean;
+    websiteMaxRequestsPerDomain?: number;
+    websiteRespectRobotsTxt?: boolean;
+    websiteParallelCrawlers?: number;
+    failedDatasetName?: string;
+    retryFailedDataset?: string;
+    retryPostingIds?: string[];
+    checkLayout?: boolean;
+    trackChanges?: boolean;
+    changesDatasetName?: string;
+    recheckMissingPostings?: number;
+    storeRetentionDays?: number;
+    geocodePostings?: boolean;
+    nearPostalCode?: string;
+    maxDistanceKm?: number;
+    occupationCodes?: string[];
+    scoreWeights?: Partial<Record<ScoreCriterion, number>>;
+    targetCompanySizeMin?: number;
+    targetCompanySizeMax?: number;
+    targetIndustries?: string[];
+    minLeadScore?: number;
+    excludeTemporaryAgencies?: boolean;
+    excludeRecruitmentAgencies?: boolean;
+    companyBlocklist?: string[];
+}
+
+/**
+ * One scraper run: searches (or retries postings by id), enriches and scores the postings and saves them, along with the
+ * stores that carry over to the next run. The actor and the command line differ only in the environment.
+ */
+export async function runScraper(input: ScraperInput, environment: RunEnvironment) {
+    const {
+        parallelCompanyCrawlers = 2,
+        maxCompanyCrawlers,
+        maxDetailBacklog = 100,
+        maxRequestsPerCrawl,
+        maxRequestsPerMinute = 120,
+        requestJitterMs = 1000,
+        maxPostingsPerSearch = Infinity,
+        maxDetailPages,
+        maxRunTimeSecs,
+        proxyConfiguration,
+        maxProxySessionErrors = 3,
+        onlyNewPostings = false,
+        dataSource = 'browser',
+        apiBaseUrl,
+        splitLargeSearches = true,
+        resultListLimit = 1000,
+        companyDatasetName = 'arbeitsagentur-companies',
+        enrichFromWebsites = false,
+        websiteMaxRequestsPerDomain = 4,
+        websiteRespectRobotsTxt = true,
+        websiteParallelCrawlers = 2,
+        failedDatasetName = DEFAULT_FAILED_DATASET,
+        retryFailedDataset,
+        retryPostingIds = [],
+        checkLayout = true,
+        trackChanges = true,
+        changesDatasetName = 'arbeitsagentur-posting-changes',
+        recheckMissingPostings = 50,
+        storeRetentionDays = 365,
+        geocodePostings = true,
+        nearPostalCode,
+        maxDistanceKm = 50,
+        occupationCodes = [],
+        scoreWeights,
+        targetCompanySizeMin,
+        targetCompanySizeMax,
+        targetIndustries = [],
+        minLeadScore = 0,
+        excludeTemporaryAgencies = false,
+        excludeRecruitmentAgencies = false,
+        companyBlocklist = [],
+        searchUrls: rawSearchUrls = [],
+        searches = [],
+        ...sinkConfig
+    } = input;
+
+    // Hand-crafted urls keep working, but are checked against what the search builder understands
+    for (const url of rawSearchUrls) {
+        const { search, unknownParameters } = parseSearchUrl(url);
+        for (const error of validateSearch(search))
+            console.warn(`Search URL ${url}: ${error}`);
+        if (unknownParameters.length > 0)
+            console.warn(`Search URL ${url} has parameters the search builder does not know: ${unknownParameters.join(', ')}`);
+    }
+    const searchUrls = [...rawSearchUrls, ...searches.map(buildSearchUrl)];
+    if (searchUrls.length === 0) searchUrls.push(buildSearchUrl(DEFAULT_SEARCH));
+
+    const seenStore = await SeenStore.open(environment.openStorage(SEEN_POSTINGS_STORE));
+    console.log(`Loaded ${seenStore.size} known postings from previous runs`);
+    const companyStore = await CompanyStore.open(environment.openStorage(COMPANIES_STORE));
+    console.log(`Loaded ${companyStore.size} known companies from previous runs`);
+    const history = trackChanges ? await PostingHistory.open(environment.openStorage(POSTING_HISTORY_STORE)) : undefined;
+    if (history) console.log(`Loaded the history of ${history.size} postings`);
+    // the stores are saved as one record each, what no run saved for a long time is dropped to keep them small
+    const retentionCutoff = new Date(Date.now() - storeRetentionDays * 24 * 60 * 60 * 1000);
+    const forgotten = [seenStore.prune(retentionCutoff), companyStore.prune(retentionCutoff), history?.prune(retentionCutoff) ?? 0];
+    if (forgotten.some(count => count > 0))
+        console.log(`Forgot ${forgotten[0]} postings, ${forgotten[1]} companies and ${forgotten[2]} posting histories not seen for ${storeRetentionDays} days`);
+
+    // Progress of an interrupted run (migration, timeout, crash) is picked up from the run's own storage
+    const checkpoint = await Checkpoint.load(environment.openStorage());
+    if (checkpoint.isResumed) console.log('Resuming from the last checkpoint');
+    environment.onPersistState(async () => checkpoint.persist());
+
+    // Counters per search url, saved as RUN_REPORT to spot a broken scraper at a glance
+    const stats = new RunStats(environment);
+    environment.onPersistState(async () => stats.persist());
+
+    // Checks postal codes against the city and adds state, district and coordinates, all from a bundled offline dataset
+    const postalCodes = geocodePostings || nearPostalCode ? await PostalCodeDirectory.load() : null;
+    // Normalizes job titles and maps them to KldB 2010 occupation codes with a bundled table
+    const occupations = await OccupationClassifier.load();
+
+    // Postings the filters reject are dropped right after the result list, before their detail page is loaded
+    const postingFilters: ((posting: Posting) => boolean)[] = [];
+    if (postalCodes && nearPostalCode) {
+        try {
+            postingFilters.push(createAreaFilter(postalCodes, nearPostalCode.trim(), maxDistanceKm));
+        } catch (error) {
+            await environment.fail((error as Error).message);
+        }
+        console.log(`Only enriching postings within ${maxDistanceKm} km of ${nearPostalCode}`);
+    }
+    if (occupationCodes.length > 0) {
+        postingFilters.push(createOccupationFilter(occupations, occupationCodes));
+        console.log(`Only enriching postings with occupation codes ${occupationCodes.join(', ')}`);
+    }
+    const excludeTypes: EmployerType[] = [
+        ...(excludeTemporaryAgencies ? ['temporary_agency' as const] : []),
+        ...(excludeRecruitmentAgencies ? ['recruitment_agency' as const] : []),
+    ];
+    const keepCompany = createCompanyFilter({ blocklist: companyBlocklist, excludeTypes });
+    if (companyBlocklist.length > 0 || excludeTypes.length > 0) postingFilters.push(keepCompany);
+    const keepPosting = postingFilters.length > 0 ? (posting: Posting) => postingFilters.every(filter => filter(posting)) : undefined;
+
+    // All crawlers share one request rate and one budget, the run ends early when the budget or the time is up
+    const rateLimiter = new RateLimiter({ requestsPerMinute: maxRequestsPerMinute, jitterMs: requestJitterMs });
+    const deadlines = [
+        maxRunTimeSecs ? Date.now() + maxRunTimeSecs * 1000 : null,
+        environment.timeoutAt ? environment.timeoutAt.getTime() - SHUTDOWN_MARGIN_MS : null,
+    ].filter((deadline): deadline is number => deadline !== null);
+    const budget = new RunBudget({
+        maxRequests: maxRequestsPerCrawl,
+        maxDetailPages,
+        deadline: deadlines.length > 0 ? new Date(Math.min(...deadlines)) : undefined,
+    });
+    const websiteEnricher = enrichFromWebsites
+        ? await WebsiteEnricher.create({ maxRequestsPerDomain: websiteMaxRequestsPerDomain, respectRobotsTxt: websiteRespectRobotsTxt, parallelCrawlers: websiteParallelCrawlers, budget })
+        : null;
+
+    let proxies: ProxyRotation | null = null;
+    try {
+        proxies = await ProxyRotation.create(proxyConfiguration, { maxSessionErrors: maxProxySessionErrors });
+    } catch (error) {
+        await environment.fail(`Invalid proxy configuration: ${(error as Error).message}`);
+    }
+    if (proxies && dataSource === 'api') console.warn('Proxies are only used by the browser data source, the API is requested directly');
+
+    const crawlerOptions = {
+        seenStore, onlyNewPostings, checkpoint, stats, history, keepPosting, pacing: { rateLimiter, budget }, proxies: proxies ?? undefined,
+    };
+    const arbeitsagenturCrawler = dataSource === 'api'
+        ? new JobsucheApiCrawler(parallelCompanyCrawlers, { ...crawlerOptions, apiBaseUrl })
+        : await ArbeitsagenturCrawler.construct(parallelCompanyCrawlers, { ...crawlerOptions, maxCompanyCrawlers, maxDetailBacklog });
+    // Rates every posting as a sales lead, the breakdown per criterion goes into the output
+    const leadScorer = new LeadScorer({ weights: scoreWeights, companySizeMin: targetCompanySizeMin, companySizeMax: targetCompanySizeMax, targetIndustries });
+    // Where saved postings go: the default dataset, a webhook, CSV/XLSX files and an upsert API, as configured
+    const sinks = await createOutputSinks(sinkConfig, environment);
+    console.log(`Saving postings to: ${sinks.map(sink => sink.name).join(', ')}`);
+
+    const failedDataset = await environment.openRecords(failedDatasetName);
+    const changesDataset = await environment.openRecords(changesDatasetName);
+    const saveChanges = async (events: (ChangeEvent | null)[]) => {
+        await changesDataset.push(events.filter((event): event is ChangeEvent => event !== null));
+        await history?.persist();
+    };
+    const savePostings = async (postings: Posting[], searchUrl: string | null) => {
+        if (geocodePostings) postalCodes?.geocodePostings(postings);
+        occupations.classifyPostings(postings);
+        await websiteEnricher?.enrichPostings(postings);
+        leadScorer.scorePostings(postings);
+        // the description tells about agencies that the company name did not give away
+        const leads = postings.filter(posting => keepCompany(posting) && (posting.lead_score ?? 0) >= minLeadScore);
+        stats.recordFilteredPostings(postings.filter(posting => !leads.includes(posting)));
+        companyStore.addPostings(leads);
+        for (const sink of sinks)
+            await sink.write(leads);
+        await failedDataset.push(failedPostingRecords(postings));
+        stats.recordSavedPostings(leads);
+        await companyStore.persist();
+        if (history) await saveChanges(history.record(postings, searchUrl));
+    };
+
+    // Retry mode enriches the postings of an earlier run's failure dataset or given ids again instead of searching
+    const retryMode = !!retryFailedDataset || retryPostingIds.length > 0;
+    if (retryMode) {
+        const records = retryFailedDataset ? await (await environment.openRecords(retryFailedDataset)).getItems() : [];
+        const postings = postingsToRetry(records, retryPostingIds, seenStore);
+        console.log(`Retrying enrichment of ${postings.length} postings`);
+        await arbeitsagenturCrawler.reenrichPostings(postings, async batch => savePostings(batch, null));
+        const stillFailed = postings.filter(posting => posting.enrichment_status === 'failed').length;
+        console.log(`Retried ${postings.length} postings, ${stillFailed} failed again`);
+    }
+
+    // Fail early instead of "succeeding" with 0 results when arbeitsagentur.de changed its markup
+    if (checkLayout && !retryMode && arbeitsagenturCrawler instanceof ArbeitsagenturCrawler) {
+        try {
+            await arbeitsagenturCrawler.checkLayout(searchUrls[0], environment);
+        } catch (error) {
+            if (error instanceof LayoutChangedError) await environment.fail(error.message);
+            throw error;
+        }
+    }
+
+    // searches whose result lists were read completely in this run, only their postings can be told missing
+    const fullyListedSearches: string[] = [];
+    for (const searchUrl of retryMode ? [] : searchUrls) {
+        if (budget.exhaustedReason()) break;
+        if (checkpoint.isCompleted(searchUrl)) {
+            console.log(`Skipping ${searchUrl}, it was completed before the restart`);
+            continue;
+        }
+        const countResults = async (url: string) => arbeitsagenturCrawler.countResults(url);
+        const plan = splitLargeSearches
+            ? await planSearches(searchUrl, countResults, resultListLimit)
+            : { total: null, searches: [{ url: searchUrl, total: null, truncated: false }] };
+        if (plan.total === 0) {
+            console.log(`${searchUrl} has no results`);
+            checkpoint.completeSearch(searchUrl);
+            await checkpoint.persist();
+            // postings it listed in earlier runs are all gone
+            fullyListedSearches.push(searchUrl);
+            continue;
+        }
+        if (plan.searches.length !== 1 || plan.searches[0].url !== searchUrl) {
+            const coverage = estimateCoverage(plan.total, plan.searches, resultListLimit);
+            console.log(`Split ${searchUrl} (${plan.total} results) into ${plan.searches.length} searches, covering up to ${Math.round(coverage * 100)}% of the results`);
+        }
+
+        let collected = 0;
+        let fullyListed = plan.searches.every(search => !search.truncated);
+        const saveSearchPostings = async (postings: Posting[]) => {
+            collected += postings.length;
+            await savePostings(postings, searchUrl);
+        };
+        for (const { url } of plan.searches) {
+            if (checkpoint.isCompleted(url)) {
+                console.log(`Skipping ${url}, it was completed before the restart`);
+                fullyListed = false;
+                continue;
+            }
+            if (collected >= maxPostingsPerSearch || budget.exhaustedReason()) {
+                fullyListed = false;
+                break;
+            }
+            await arbeitsagenturCrawler.readPostings(url, saveSearchPostings, maxPostingsPerSearch - collected);
+            // a search cut short by the limits has not shown all of its postings
+            if (collected >= maxPostingsPerSearch || budget.exhaustedReason()) fullyListed = false;
+            // one that the budget or the deadline stopped is not done, after a restart it goes on from its checkpoint
+            if (!budget.exhaustedReason()) checkpoint.completeSearch(url);
+            await checkpoint.persist();
+            stats.finishSearch(url);
+            await stats.persist();
+        }
+        if (!budget.exhaustedReason()) checkpoint.completeSearch(searchUrl);
+        await checkpoint.persist();
+        if (fullyListed) fullyListedSearches.push(searchUrl);
+        if (plan.total)
+            console.log(`Collected ${collected} unique postings for ${searchUrl} (${Math.round(collected / plan.total * 100)}% of ${plan.total} results)`);
+    }
+
+    // Postings of earlier runs that no search showed today were either delisted or moved out of the search
+    if (history && !retryMode) {
+        if (onlyNewPostings) {
+            console.log('Skipping delisting detection, only-new mode stops paging at the first known page');
+        } else {
+            const missing = history.missingIds(fullyListedSearches);
+            const recheck = missing.slice(0, recheckMissingPostings);
+            console.log(`${missing.length} known postings were not listed, re-checking ${recheck.length} of them`);
+            const events: (ChangeEvent | null)[] = [];
+            for (const id of recheck) {
+                if (budget.exhaustedReason()) break;
+                const online = await arbeitsagenturCrawler.isPostingOnline(id);
+                if (online) history.markStillOnline(id);
+                else if (online === false) events.push(history.markDisappeared(id, true));
+            }
+            // without a re-check pass every missing posting counts as gone, otherwise the rest waits for the next run
+            if (recheckMissingPostings === 0) events.push(...missing.map(id => history.markDisappeared(id, null)));
+            await saveChanges(events);
+        }
+    }
+
+    await checkpoint.clear();
+    if (budget.stopReason) stats.recordStop(budget.stopReason);
+    await stats.persist();
+    for (const warning of stats.report().warnings)
+        console.warn(`Run report: ${warning}`);
+    await websiteEnricher?.close();
+    await arbeitsagenturCrawler.close();
+    for (const sink of sinks)
+        await sink.close();
+
+    // One record per employer that had postings in this run, merged with what earlier runs found about it. The records
+    // of earlier runs stay, the latest one per company_key is current
+    const companyDataset = await environment.openRecords(companyDatasetName);
+    await companyDataset.push(companyStore.touchedRecords());
+    console.log(`Appended the current record of ${companyStore.touchedRecords().length} companies to dataset ${companyDatasetName}`);
+}
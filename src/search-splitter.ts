@@ -0,0 +1,88 @@
+import type { JobSearch } from './search-url.js';
+import { buildSearchUrl, parseSearchUrl, validateSearch, WORKING_TIMES } from './search-url.js';
+
+const FEDERAL_STATES = [
+    'Baden-Württemberg',
+    'Bayern',
+    'Berlin',
+    'Brandenburg',
+    'Bremen',
+    'Hamburg',
+    'Hessen',
+    'Mecklenburg-Vorpommern',
+    'Niedersachsen',
+    'Nordrhein-Westfalen',
+    'Rheinland-Pfalz',
+    'Saarland',
+    'Sachsen',
+    'Sachsen-Anhalt',
+    'Schleswig-Holstein',
+    'Thüringen',
+];
+
+export type PlannedSearch = {
+    url: string;
+    // hit count reported by the result page, null if it could not be read
+    total: number | null;
+    // true if the search is still larger than the result list can page through and could not be split any further
+    truncated: boolean;
+};
+
+/**
+ * Splits a search into narrower ones along the first dimension that still allows it: federal state for nationwide
+ * searches, then single industries, then single working time models. Returns null if the search cannot be split.
+ */
+export function splitSearch(search: JobSearch): JobSearch[] | null {
+    const nationwide = !search.location || /^deutschland/i.test(search.location);
+    if (nationwide && search.radiusKm === undefined)
+        return FEDERAL_STATES.map(state => ({ ...search, location: state }));
+    if (search.industries && search.industries.length > 1)
+        return search.industries.map(industry => ({ ...search, industries: [industry] }));
+    const workingTimes = search.workingTime?.length ? search.workingTime : WORKING_TIMES;
+    if (workingTimes.length > 1)
+        return workingTimes.map(workingTime => ({ ...search, workingTime: [workingTime] }));
+    return null;
+}
+
+async function planSplits(url: string, total: number | null, countResults: (url: string) => Promise<number | null>, maxResults: number): Promise<PlannedSearch[]> {
+    if (total === 0) return [];
+    if (total === null || total <= maxResults) return [{ url, total, truncated: false }];
+
+    const { search, unknownParameters } = parseSearchUrl(url);
+    if (unknownParameters.length > 0 || validateSearch(search).length > 0) {
+        console.warn(`Search ${url} has ${total} results but cannot be split safely, only the first ${maxResults} will be read`);
+        return [{ url, total, truncated: true }];
+    }
+    const subSearches = splitSearch(search);
+    if (!subSearches) {
+        console.warn(`Search ${url} has ${total} results and cannot be split any further, only the first ${maxResults} will be read`);
+        return [{ url, total, truncated: true }];
+    }
+    console.log(`Search ${url} has ${total} results, splitting it into ${subSearches.length} searches`);
+    const planned: PlannedSearch[] = [];
+    for (const subSearch of subSearches) {
+        const subUrl = buildSearchUrl(subSearch);
+        planned.push(...await planSplits(subUrl, await countResults(subUrl), countResults, maxResults));
+    }
+    return planned;
+}
+
+/**
+ * Recursively splits `url` until every resulting search reports at most `maxResults` hits (or cannot be split any
+ * further). Searches that are small enough are returned as they are.
+ */
+export async function planSearches(url: string, countResults: (url: string) => Promise<number | null>, maxResults: number) {
+    const total = await countResults(url);
+    const searches = await planSplits(url, total, countResults, maxResults);
+    return { total, searches };
+}
+
+/**
+ * Share of the `total` hits of the original search that the planned searches can page through. Sub-searches may
+ * overlap (a posting can offer several working time models), so this is an upper bound.
+ */
+export function estimateCoverage(total: number | null, planned: PlannedSearch[], maxResults: number) {
+    if (!total) return 1;
+    const reachable = planned.reduce((sum, search) => sum + Math.min(search.total ?? 0, maxResults), 0);
+    return Math.min(1, reachable / total);
+}
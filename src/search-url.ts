@@ -0,0 +1,100 @@
+const SEARCH_BASE_URL = 'https://www.arbeitsagentur.de/jobsuche/suche';
+
+const OFFER_TYPES = {
+    arbeit: '1',
+    selbststaendigkeit: '2',
+    ausbildung: '4',
+    praktikum: '34',
+} as const;
+
+export type OfferType = keyof typeof OFFER_TYPES;
+
+// vz = Vollzeit, tz = Teilzeit, snw = Schicht/Nacht/Wochenende, ho = Homeoffice, mj = Minijob
+export const WORKING_TIMES = ['vz', 'tz', 'snw', 'ho', 'mj'] as const;
+
+export type WorkingTime = (typeof WORKING_TIMES)[number];
+
+const RADII_KM = [0, 10, 15, 20, 25, 50, 100, 200];
+
+const KNOWN_PARAMETERS = ['angebotsart', 'was', 'wo', 'umkreis', 'veroeffentlichtseit', 'arbeitszeit', 'zeitarbeit', 'branche'];
+
+export type JobSearch = {
+    keywords?: string;
+    location?: string;
+    radiusKm?: number;
+    offerType?: OfferType;
+    workingTime?: WorkingTime[];
+    industries?: number[];
+    includeTemporaryAgencies?: boolean;
+    publishedSinceDays?: number;
+};
+
+export const DEFAULT_SEARCH: JobSearch = {
+    offerType: 'arbeit',
+    location: 'Deutschland',
+    publishedSinceDays: 7,
+    workingTime: ['vz', 'tz', 'snw', 'ho'],
+    includeTemporaryAgencies: true,
+    industries: [9, 7, 11, 13, 15],
+};
+
+export function validateSearch(search: JobSearch): string[] {
+    const errors: string[] = [];
+    if (search.radiusKm !== undefined) {
+        if (!search.location) errors.push('radiusKm requires a location');
+        if (!RADII_KM.includes(search.radiusKm)) errors.push(`radiusKm must be one of ${RADII_KM.join(', ')}, got ${search.radiusKm}`);
+    }
+    if (search.offerType !== undefined && !(search.offerType in OFFER_TYPES))
+        errors.push(`offerType must be one of ${Object.keys(OFFER_TYPES).join(', ')}, got ${search.offerType}`);
+    for (const workingTime of search.workingTime ?? []) {
+        if (!WORKING_TIMES.includes(workingTime)) errors.push(`workingTime must be one of ${WORKING_TIMES.join(', ')}, got ${workingTime}`);
+    }
+    for (const industry of search.industries ?? []) {
+        if (!Number.isInteger(industry) || industry <= 0) errors.push(`industries must be positive integer branche codes, got ${industry}`);
+    }
+    if (search.publishedSinceDays !== undefined && (!Number.isInteger(search.publishedSinceDays) || search.publishedSinceDays < 0 || search.publishedSinceDays > 100))
+        errors.push(`publishedSinceDays must be an integer between 0 and 100, got ${search.publishedSinceDays}`);
+    return errors;
+}
+
+export function buildSearchUrl(search: JobSearch): string {
+    const errors = validateSearch(search);
+    if (errors.length > 0) throw new Error(`Invalid search ${JSON.stringify(search)}: ${errors.join('; ')}`);
+
+    // lists are joined with a literal ';' like the web app does, so the values are encoded one by one
+    const params: [string, string][] = [];
+    if (search.offerType) params.push(['angebotsart', OFFER_TYPES[search.offerType]]);
+    if (search.keywords) params.push(['was', encodeURIComponent(search.keywords)]);
+    if (search.location) params.push(['wo', encodeURIComponent(search.location)]);
+    if (search.radiusKm !== undefined) params.push(['umkreis', `${search.radiusKm}`]);
+    if (search.publishedSinceDays !== undefined) params.push(['veroeffentlichtseit', `${search.publishedSinceDays}`]);
+    if (search.workingTime?.length) params.push(['arbeitszeit', search.workingTime.join(';')]);
+    if (search.includeTemporaryAgencies !== undefined) params.push(['zeitarbeit', `${search.includeTemporaryAgencies}`]);
+    if (search.industries?.length) params.push(['branche', search.industries.join(';')]);
+    return `${SEARCH_BASE_URL}?${params.map(([name, value]) => `${name}=${value}`).join('&')}`;
+}
+
+/**
+ * Parses a jobsuche url back into a `JobSearch`. Parameters the builder does not know are reported in `unknownParameters`.
+ */
+export function parseSearchUrl(url: string): { search: JobSearch; unknownParameters: string[] } {
+    const { searchParams } = new URL(url);
+    const search: JobSearch = {};
+    const list = (name: string) => searchParams.get(name)?.split(';').filter(Boolean) ?? [];
+
+    const offerType = searchParams.get('angebotsart');
+    if (offerType) {
+        const entry = Object.entries(OFFER_TYPES).find(([, code]) => code === offerType);
+        search.offerType = (entry?.[0] ?? offerType) as OfferType;
+    }
+    if (searchParams.get('was')) search.keywords = searchParams.get('was')!;
+    if (searchParams.get('wo')) search.location = searchParams.get('wo')!;
+    if (searchParams.has('umkreis')) search.radiusKm = Number(searchParams.get('umkreis'));
+    if (searchParams.has('veroeffentlichtseit')) search.publishedSinceDays = Number(searchParams.get('veroeffentlichtseit'));
+    if (searchParams.has('arbeitszeit')) search.workingTime = list('arbeitszeit') as WorkingTime[];
+    if (searchParams.has('zeitarbeit')) search.includeTemporaryAgencies = searchParams.get('zeitarbeit') === 'true';
+    if (searchParams.has('branche')) search.industries = list('branche').map(Number);
+
+    const unknownParameters = [...new Set(searchParams.keys())].filter(name => !KNOWN_PARAMETERS.includes(name));
+    return { search, unknownParameters };
+}
@@ -0,0 +1,76 @@
+import type { JsonStorage } from './storage.js';
+
+const SEEN_POSTINGS_KEY = 'SEEN_POSTINGS';
+
+type SeenRecord = {
+    first_seen: string;
+    last_seen: string;
+    // when the detail page was read the last time, records of earlier versions have none
+    last_enriched?: string;
+};
+
+export type Sighting = {
+    is_new: boolean;
+    first_seen: string;
+    last_seen: string;
+};
+
+export class SeenStore {
+
+    static async open(storage: JsonStorage): Promise<SeenStore> {
+        const records = await storage.getValue<Record<string, SeenRecord>>(SEEN_POSTINGS_KEY);
+        return new SeenStore(storage, new Map(Object.entries(records ?? {})));
+    }
+
+    private readonly storage: JsonStorage;
+    private readonly records: Map<string, SeenRecord>;
+    private changed = false;
+
+    private constructor(storage: JsonStorage, records: Map<string, SeenRecord>) {
+        this.storage = storage;
+        this.records = records;
+    }
+
+    get size() {
+        return this.records.size;
+    }
+
+    has(id: string) {
+        return this.records.has(id);
+    }
+
+    sight(id: string, now = new Date(), enriched = false): Sighting {
+        const timestamp = now.toISOString();
+        const record = this.records.get(id);
+        this.changed = true;
+        if (!record) {
+            this.records.set(id, { first_seen: timestamp, last_seen: timestamp, ...(enriched ? { last_enriched: timestamp } : {}) });
+            return { is_new: true, first_seen: timestamp, last_seen: timestamp };
+        }
+        record.last_seen = timestamp;
+        if (enriched) record.last_enriched = timestamp;
+        return { is_new: false, first_seen: record.first_seen, last_seen: record.last_seen };
+    }
+
+    lastEnriched(id: string) {
+        return this.records.get(id)?.last_enriched ?? null;
+    }
+
+    /**
+     * Forgets postings that were last seen before `cutoff`, a posting seen again after that counts as new. Returns the
+     * number of forgotten postings.
+     */
+    prune(cutoff: Date) {
+        const before = this.records.size;
+        for (const [id, record] of this.records)
+            if (new Date(record.last_seen) < cutoff) this.records.delete(id);
+        if (this.records.size < before) this.changed = true;
+        return before - this.records.size;
+    }
+
+    async persist() {
+        if (!this.changed) return;
+        this.changed = false;
+        await this.storage.setValue(SEEN_POSTINGS_KEY, Object.fromEntries(this.records));
+    }
+}
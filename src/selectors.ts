@@ -0,0 +1,52 @@
+export type PageElement = {
+    // element id, `{i}` stands for the position of the result in the list
+    id: string;
+    // the page cannot be scraped without it, as opposed to data that not every posting shows
+    required: boolean;
+};
+
+/**
+ * Every element id the scraper reads from arbeitsagentur.de. When the site changes its markup, this is the one place to
+ * update, and the startup canary check tells which ids are gone.
+ */
+export const RESULT_LIST = {
+    resultCount: { id: 'suchergebnis-h1-anzeige', required: true },
+    company: { id: 'eintrag-{i}-firma', required: true },
+    title: { id: 'eintrag-{i}-titel', required: true },
+    location: { id: 'eintrag-{i}-arbeitsort', required: true },
+    startDate: { id: 'eintrag-{i}-eintrittsdatum', required: false },
+    postDate: { id: 'eintrag-{i}-veroeffentlichungsdatum', required: false },
+    link: { id: 'ergebnisliste-item-{i}', required: true },
+    // only shown while there are more results than on the page
+    loadMore: { id: 'ergebnisliste-ladeweitere-button', required: false },
+} satisfies Record<string, PageElement>;
+
+export const DETAIL_PAGE = {
+    title: { id: 'detail-kopfbereich-titel', required: false },
+    company: { id: 'detail-kopfbereich-firma', required: false },
+    address: { id: 'detail-arbeitsorte-arbeitsort-0', required: true },
+    description: { id: 'detail-beschreibung-beschreibung', required: true },
+    website: { id: 'detail-agdarstellung-link-0', required: false },
+    companySize: { id: 'detail-agdarstellung-betriebsgroesse', required: false },
+    salary: { id: 'detail-verguetung-verguetung', required: false },
+    workingTime: { id: 'detail-arbeitszeit-arbeitszeit', required: false },
+    contract: { id: 'detail-vertragsdauer-vertragsdauer', required: false },
+    referenceNumber: { id: 'detail-footer-referenznummer', required: false },
+    positions: { id: 'detail-kopfbereich-anzahl-stellen', required: false },
+    qualification: { id: 'detail-anforderungen-anforderung-{i}', required: false },
+    contactPerson: { id: 'detail-bewerbung-ansprechpartner', required: false },
+    application: { id: 'detail-bewerbung-bewerbung', required: false },
+} satisfies Record<string, PageElement>;
+
+export function elementId(element: PageElement, index = 0) {
+    return element.id.replace('{i}', `${index}`);
+}
+
+// the part of an indexed id shared by all positions, e.g. to find every qualification
+export function elementIdPrefix(element: PageElement) {
+    return element.id.slice(0, element.id.indexOf('{i}'));
+}
+
+export function requiredElements(elements: Record<string, PageElement>) {
+    return Object.entries(elements).filter(([, element]) => element.required);
+}
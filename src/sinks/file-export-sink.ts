@@ -0,0 +1,97 @@
+import type { CellValue } from '../misc/xlsx.js';
+import { createXlsx } from '../misc/xlsx.js';
+import type { Posting } from '../posting.js';
+import type { FileSaver } from '../run-environment.js';
+import type { OutputSink } from './output-sink.js';
+
+export type ExportFormat = 'csv' | 'xlsx';
+
+export type FileExportSinkOptions = {
+    formats: ExportFormat[];
+    // key in the key-value store without extension
+    fileName?: string;
+};
+
+// in the order a sales team reads a lead: who, what, where, how to reach them, then the details
+const EXPORT_COLUMNS: { header: string; value: (posting: Posting) => CellValue }[] = [
+    { header: 'Lead-Score', value: posting => posting.lead_score ?? null },
+    { header: 'Firma', value: posting => posting.company_name },
+    { header: 'Arbeitgebertyp', value: posting => posting.employer_type ?? null },
+    { header: 'Stellentitel', value: posting => posting.raw_job_title },
+    { header: 'KldB-Berufsgruppe', value: posting => posting.occupation_code ?? null },
+    { header: 'Berufsgruppe', value: posting => posting.occupation_group ?? null },
+    { header: 'Anforderungsniveau', value: posting => posting.occupation_level ?? null },
+    { header: 'PLZ', value: posting => (posting.postal_code === null ? null : String(posting.postal_code).padStart(5, '0')) },
+    { header: 'Ort', value: posting => posting.city },
+    { header: 'Bundesland', value: posting => posting.state ?? null },
+    { header: 'Entfernung (km)', value: posting => posting.distance_km ?? null },
+    { header: 'Straße', value: posting => posting.street },
+    { header: 'E-Mail', value: posting => posting.email },
+    { header: 'Telefon', value: posting => posting.phone },
+    { header: 'Website', value: posting => posting.website },
+    { header: 'Ansprechpartner', value: posting => posting.contact_person_name ?? null },
+    { header: 'Funktion Ansprechpartner', value: posting => posting.contact_person_title ?? null },
+    { header: 'Mitarbeiter', value: posting => posting.company_size },
+    { header: 'Gehalt', value: posting => posting.salary ?? null },
+    { header: 'Arbeitszeit', value: posting => posting.working_time?.join(', ') ?? null },
+    { header: 'Vertragsart', value: posting => posting.contract_type ?? null },
+    { header: 'Offene Stellen', value: posting => posting.positions ?? null },
+    { header: 'Eintrittsdatum', value: posting => posting.start_date },
+    { header: 'Veröffentlicht', value: posting => (posting.post_date ? new Date(posting.post_date).toLocaleDateString('de-DE') : null) },
+    { header: 'Referenznummer', value: posting => posting.reference_number ?? null },
+    { header: 'Arbeitsagentur-ID', value: posting => posting.arbeitsagentur_id },
+    { header: 'Link', value: posting => `https://www.arbeitsagentur.de/jobsuche/jobdetail/${posting.arbeitsagentur_id}` },
+    { header: 'Status Anreicherung', value: posting => posting.enrichment_status ?? null },
+];
+
+function csvCell(value: CellValue) {
+    if (value === null) return '';
+    const text = String(value);
+    return /[";\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * CSV as German Excel opens it with a double click: semicolons, CRLF line ends and a byte order mark for UTF-8.
+ */
+export function rowsToCsv(rows: CellValue[][]) {
+    return `\uFEFF${rows.map(row => row.map(csvCell).join(';')).join('\r\n')}\r\n`;
+}
+
+export const EXPORT_CONTENT_TYPES: Record<ExportFormat, string> = {
+    csv: 'text/csv; charset=utf-8',
+    xlsx: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+};
+
+function exportRow(posting: Posting): CellValue[] {
+    return EXPORT_COLUMNS.map(column => column.value(posting));
+}
+
+function exportFile(rows: CellValue[][], format: ExportFormat) {
+    return format === 'csv' ? rowsToCsv(rows) : createXlsx('Stellenangebote', rows);
+}
+
+/**
+ * The postings as file content in the given format, one row per posting.
+ */
+export function exportPostings(postings: Posting[], format: ExportFormat) {
+    return exportFile([EXPORT_COLUMNS.map(column => column.header), ...postings.map(exportRow)], format);
+}
+
+/**
+ * Collects all postings of the run and saves them as CSV and/or XLSX to the run's key-value store at the end.
+ */
+export function fileExportSink(options: FileExportSinkOptions, files: FileSaver): OutputSink {
+    const { formats, fileName = 'postings' } = options;
+    const rows: CellValue[][] = [EXPORT_COLUMNS.map(column => column.header)];
+    return {
+        name: 'file export',
+        async write(postings) {
+            rows.push(...postings.map(exportRow));
+        },
+        async close() {
+            for (const format of formats)
+                await files.saveFile(`${fileName}.${format}`, exportFile(rows, format), EXPORT_CONTENT_TYPES[format]);
+            console.log(`Exported ${rows.length - 1} postings as ${formats.join(', ')} to ${fileName}`);
+        },
+    };
+}
@@ -0,0 +1,58 @@
+import type { Posting } from '../posting.js';
+import type { RecordStore, RunEnvironment } from '../run-environment.js';
+import type { ExportFormat } from './file-export-sink.js';
+import { fileExportSink } from './file-export-sink.js';
+import { upsertSink } from './upsert-sink.js';
+import { webhookSink } from './webhook-sink.js';
+
+/**
+ * Somewhere saved postings go. `write` is called with every saved batch, `close` once at the end of the run.
+ */
+export interface OutputSink {
+    readonly name: string;
+    write(postings: Posting[]): Promise<void>;
+    close(): Promise<void>;
+}
+
+export type OutputSinkConfig = {
+    pushToDataset?: boolean;
+    webhookUrl?: string;
+    webhookSecret?: string;
+    webhookBatchSize?: number;
+    exportFormats?: ExportFormat[];
+    exportFileName?: string;
+    upsertUrl?: string;
+    upsertMethod?: 'PUT' | 'POST' | 'PATCH';
+    upsertKeyField?: keyof Posting;
+    upsertHeaders?: Record<string, string>;
+};
+
+export function datasetSink(records: RecordStore): OutputSink {
+    return {
+        name: 'dataset',
+        async write(postings) {
+            await records.push(postings);
+        },
+        async close() {
+            // every batch is pushed right away
+        },
+    };
+}
+
+export async function createOutputSinks(config: OutputSinkConfig, environment: RunEnvironment): Promise<OutputSink[]> {
+    const sinks: OutputSink[] = [];
+    if (config.pushToDataset ?? true) sinks.push(datasetSink(await environment.openRecords()));
+    if (config.webhookUrl)
+        sinks.push(webhookSink({ url: config.webhookUrl, secret: config.webhookSecret, batchSize: config.webhookBatchSize }));
+    if (config.exportFormats?.length)
+        sinks.push(fileExportSink({ formats: config.exportFormats, fileName: config.exportFileName }, environment));
+    if (config.upsertUrl) {
+        sinks.push(upsertSink({
+            urlTemplate: config.upsertUrl,
+            method: config.upsertMethod,
+            keyField: config.upsertKeyField,
+            headers: config.upsertHeaders,
+        }));
+    }
+    return sinks;
+}
@@ -0,0 +1,33 @@
+import { sendJson } from '../misc/request.js';
+import type { Posting } from '../posting.js';
+import type { OutputSink } from './output-sink.js';
+
+export type UpsertSinkOptions = {
+    // `{key}` is replaced by the key of the posting, e.g. https://crm.example.com/api/leads/{key}
+    urlTemplate: string;
+    method?: 'PUT' | 'POST' | 'PATCH';
+    keyField?: keyof Posting;
+    headers?: Record<string, string>;
+};
+
+/**
+ * Creates or updates one record per posting in an HTTP API that is addressed by a key, so repeated runs update the
+ * records instead of duplicating them.
+ */
+export function upsertSink(options: UpsertSinkOptions): OutputSink {
+    const { urlTemplate, method = 'PUT', keyField = 'arbeitsagentur_id', headers = {} } = options;
+    return {
+        name: 'upsert',
+        async write(postings) {
+            for (const posting of postings) {
+                const key = posting[keyField];
+                if (key === null || key === undefined || key === '') continue;
+                const url = urlTemplate.replace('{key}', encodeURIComponent(String(key)));
+                await sendJson(url, JSON.stringify(posting), { method, headers });
+            }
+        },
+        async close() {
+            // every posting is sent right away
+        },
+    };
+}
@@ -0,0 +1,43 @@
+import { createHmac } from 'node:crypto';
+
+import { sendJson } from '../misc/request.js';
+import type { Posting } from '../posting.js';
+import type { OutputSink } from './output-sink.js';
+
+export type WebhookSinkOptions = {
+    url: string;
+    // signs every request body, the receiver recomputes the HMAC to verify the sender
+    secret?: string;
+    batchSize?: number;
+};
+
+export const SIGNATURE_HEADER = 'X-Signature-256';
+
+export function signPayload(body: string, secret: string) {
+    return `sha256=${createHmac('sha256', secret).update(body).digest('hex')}`;
+}
+
+/**
+ * Posts postings as JSON to a webhook in batches of `batchSize`, `{ "postings": [...], "sent_at": "..." }`.
+ */
+export function webhookSink(options: WebhookSinkOptions): OutputSink {
+    const { url, secret, batchSize = 50 } = options;
+    const buffer: Posting[] = [];
+
+    const send = async (postings: Posting[]) => {
+        const body = JSON.stringify({ postings, sent_at: new Date().toISOString() });
+        await sendJson(url, body, { headers: secret ? { [SIGNATURE_HEADER]: signPayload(body, secret) } : {} });
+    };
+
+    return {
+        name: 'webhook',
+        async write(postings) {
+            buffer.push(...postings);
+            while (buffer.length >= batchSize)
+                await send(buffer.splice(0, batchSize));
+        },
+        async close() {
+            if (buffer.length > 0) await send(buffer.splice(0));
+        },
+    };
+}
@@ -0,0 +1,57 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { Actor } from 'apify';
+
+const LOCAL_STORAGE_DIR = path.join(process.cwd(), 'storage', 'persistent');
+
+export interface JsonStorage {
+    getValue<T>(key: string): Promise<T | null>;
+    setValue(key: string, value: unknown): Promise<void>;
+}
+
+function keyValueJsonStorage(storeName: string | undefined): JsonStorage {
+    return {
+        async getValue<T>(key: string) {
+            const store = await Actor.openKeyValueStore(storeName);
+            return store.getValue<T>(key);
+        },
+        async setValue(key: string, value: unknown) {
+            const store = await Actor.openKeyValueStore(storeName);
+            await store.setValue(key, value);
+        },
+    };
+}
+
+export function fileJsonStorage(directory: string): JsonStorage {
+    const filePath = (key: string) => path.join(directory, `${key}.json`);
+    return {
+        async getValue<T>(key: string) {
+            try {
+                return JSON.parse(await readFile(filePath(key), 'utf-8')) as T;
+            } catch (error) {
+                if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+                throw error;
+            }
+        },
+        async setValue(key: string, value: unknown) {
+            if (value === null) {
+                await rm(filePath(key), { force: true });
+                return;
+            }
+            await mkdir(directory, { recursive: true });
+            // write to a temporary file first so a crash mid-write never leaves a truncated record behind
+            await writeFile(`${filePath(key)}.tmp`, JSON.stringify(value));
+            await rename(`${filePath(key)}.tmp`, filePath(key));
+        },
+    };
+}
+
+/**
+ * Opens a storage for JSON records that survives across runs. On the Apify platform it is backed by the
+ * key-value store with the given name (or the run's default store), otherwise by plain files below `storage/persistent`.
+ */
+export function openJsonStorage(name?: string): JsonStorage {
+    if (Actor.isAtHome()) return keyValueJsonStorage(name);
+    return fileJsonStorage(path.join(LOCAL_STORAGE_DIR, name ?? 'default'));
+}
@@ -0,0 +1,174 @@
+import { Crawler } from './crawler.js';
+import type { Contact } from './misc/contact.js';
+import { extractContacts } from './misc/contact.js';
+import type { ImprintData } from './misc/imprint.js';
+import { parseImprint } from './misc/imprint.js';
+import { isAllowedByRobots } from './misc/robots.js';
+import type { Posting } from './posting.js';
+import type { RunBudget } from './run-budget.js';
+import { WorkerPool } from './worker-pool.js';
+
+// pages worth visiting on an employer website, in the order they are visited
+const PAGE_KINDS = [
+    { kind: 'impressum', pattern: /impressum|imprint|legal-notice/i },
+    { kind: 'kontakt', pattern: /kontakt|contact/i },
+    { kind: 'karriere', pattern: /karriere|career|jobs|stellenangebote/i },
+] as const;
+
+export type WebsiteDetails = ImprintData & {
+    website_url: string;
+    pages_visited: string[];
+    contacts: Contact[];
+};
+
+export type WebsiteEnricherOptions = {
+    maxRequestsPerDomain?: number;
+    respectRobotsTxt?: boolean;
+    // browsers that crawl websites side by side
+    parallelCrawlers?: number;
+    // websites do not count as requests, but none are crawled once the budget or the deadline of the run is used up
+    budget?: RunBudget;
+};
+
+type WebsiteWorker = {
+    crawler: Crawler;
+    close(): Promise<void>;
+};
+
+/**
+ * Visits employer websites of postings that lack an email or phone number and reads contacts and Impressum data from
+ * the start, Impressum, Kontakt and Karriere pages. Every domain is crawled once per run, the websites of a batch are
+ * crawled by a pool of browsers.
+ */
+export class WebsiteEnricher {
+
+    static async create(options: WebsiteEnricherOptions = {}) {
+        const enricher = new WebsiteEnricher(options);
+        await enricher.pool.start();
+        return enricher;
+    }
+
+    private readonly pool: WorkerPool<Posting, WebsiteWorker>;
+    private readonly maxRequestsPerDomain: number;
+    private readonly respectRobotsTxt: boolean;
+    private readonly budget: RunBudget | undefined;
+    private readonly results = new Map<string, Promise<WebsiteDetails | null>>();
+    private readonly robotsTxts = new Map<string, Promise<string | null>>();
+
+    private constructor(options: WebsiteEnricherOptions) {
+        this.maxRequestsPerDomain = options.maxRequestsPerDomain ?? 4;
+        this.respectRobotsTxt = options.respectRobotsTxt ?? true;
+        this.budget = options.budget;
+        this.pool = new WorkerPool(createWebsiteWorker, async (worker, posting) => this.enrichPosting(worker.crawler, posting), {
+            initialWorkers: options.parallelCrawlers ?? 2,
+            // the result of a domain is shared by all of its postings, a failed website is not crawled again
+            maxRetries: 0,
+        });
+    }
+
+    async enrichPostings(postings: Posting[]) {
+        await this.pool.process(postings.filter(posting => posting.website && !(posting.email && posting.phone)));
+    }
+
+    async close() {
+        await this.pool.close();
+    }
+
+    private async enrichPosting(crawler: Crawler, posting: Posting) {
+        const exhausted = this.budget?.exhaustedReason();
+        if (exhausted) {
+            Object.assign(posting, { website_error: `Website not crawled, ${exhausted}` });
+            return;
+        }
+        const details = await this.detailsFor(crawler, posting.website!);
+        if (!details) return;
+        const email = details.contacts.find(contact => contact.type === 'email');
+        const phone = details.contacts.find(contact => contact.type === 'phone');
+        Object.assign(posting, {
+            website_details: details,
+            ...(!posting.email && email ? { email: email.value } : {}),
+            ...(!posting.phone && phone ? { phone: phone.value, phone_details: phone.phone ?? null } : {}),
+        });
+    }
+
+    private async detailsFor(crawler: Crawler, website: string) {
+        let url: URL;
+        try {
+            url = new URL(website.startsWith('http') ? website : `https://${website}`);
+        } catch {
+            return null;
+        }
+        // links to the employer profile on the job portal itself tell nothing new
+        if (url.hostname.endsWith('arbeitsagentur.de')) return null;
+        const domain = url.hostname.replace(/^www\./, '');
+        if (!this.results.has(domain)) this.results.set(domain, this.crawlWebsite(crawler, url, domain));
+        return this.results.get(domain)!;
+    }
+
+    private async isAllowed(url: URL) {
+        if (!this.respectRobotsTxt) return true;
+        if (!this.robotsTxts.has(url.origin)) {
+            this.robotsTxts.set(url.origin, fetch(`${url.origin}/robots.txt`, { signal: AbortSignal.timeout(10000) })
+                .then(async response => (response.ok ? response.text() : null))
+                .catch(() => null));
+        }
+        const robotsTxt = await this.robotsTxts.get(url.origin)!;
+        return robotsTxt === null || isAllowedByRobots(robotsTxt, `${url.pathname}${url.search}`);
+    }
+
+    private async crawlWebsite(crawler: Crawler, url: URL, domain: string): Promise<WebsiteDetails | null> {
+        const pagesVisited: string[] = [];
+        const texts: string[] = [];
+        const contactLinks: string[] = [];
+        let imprintText: string | null = null;
+
+        const visit = async (pageUrl: URL) => {
+            if (pagesVisited.length >= this.maxRequestsPerDomain || this.budget?.exhaustedReason()) return false;
+            if (!await this.isAllowed(pageUrl)) {
+                console.log(`robots.txt disallows ${pageUrl.href}, skipping it`);
+                return false;
+            }
+            pagesVisited.push(pageUrl.href);
+            await crawler.goto(pageUrl.href, false, 1);
+            const [text, links] = await Promise.all([
+                crawler.getPageText(),
+                crawler.getLinkUrlsWithSelector('a[href^="mailto:"], a[href^="tel:"]'),
+            ]);
+            texts.push(text);
+            contactLinks.push(...links);
+            return true;
+        };
+
+        try {
+            if (!await visit(url)) return null;
+            const links = (await crawler.getLinks()).filter(link => {
+                try {
+                    return new URL(link.href).hostname.replace(/^www\./, '') === domain;
+                } catch {
+                    return false;
+                }
+            });
+            for (const { kind, pattern } of PAGE_KINDS) {
+                const link = links.find(candidate => pattern.test(candidate.text) || pattern.test(new URL(candidate.href).pathname));
+                if (!link || pagesVisited.includes(link.href)) continue;
+                if (await visit(new URL(link.href)) && kind === 'impressum') imprintText = texts[texts.length - 1];
+            }
+        } catch (error) {
+            console.warn(`Failed to crawl website ${url.href}:`, error);
+            if (texts.length === 0) return null;
+        }
+
+        return {
+            website_url: url.href,
+            pages_visited: pagesVisited,
+            contacts: extractContacts(texts.join('\n'), contactLinks),
+            // contact pages often carry the imprint data when there is no separate Impressum
+            ...parseImprint(imprintText ?? texts.join('\n')),
+        };
+    }
+}
+
+async function createWebsiteWorker(): Promise<WebsiteWorker> {
+    const crawler = await Crawler.create({ iDontCareAboutCookies: true });
+    return { crawler, close: async () => crawler.close() };
+}
@@ -0,0 +1,240 @@
+import { getMemoryInfoV2 } from 'crawlee';
+
+import { exponentialBackoff } from './misc/request.js';
+
+const SCALE_INTERVAL_MS = 15000;
+const ERROR_WINDOW = 20;
+// attempts to start a worker when there is none left
+const LAST_WORKER_START_ATTEMPTS = 3;
+
+export type WorkerPoolOptions<T> = {
+    initialWorkers: number;
+    minWorkers?: number;
+    maxWorkers?: number;
+    // attempts per item after the first one before it is given up
+    maxRetries?: number;
+    // items queued or in progress before `waitForCapacity` blocks the producer
+    maxBacklog?: number;
+    // share of the memory limit above which the pool shrinks, it only grows well below it
+    maxMemoryRatio?: number;
+    // share of failed attempts among the recent ones above which the pool shrinks
+    maxErrorRate?: number;
+    // called for items that failed and go back on the queue
+    onRetry?: (item: T, error: unknown) => void;
+    // called for items that failed on every attempt
+    onGiveUp?: (item: T, error: unknown) => void;
+};
+
+type Task<T> = {
+    item: T;
+    attempts: number;
+    done: () => void;
+    fail: (error: unknown) => void;
+};
+
+type Worker = {
+    close(): Promise<void>;
+};
+
+/**
+ * Runs items through a pool of workers (browsers) that pull from one shared queue, so a slow or broken worker only
+ * holds back its current item. Failed items are put back on the queue until they run out of retries. The number of
+ * workers follows the memory usage and the error rate. If not a single worker can be started, the pool fails and
+ * rejects the queued items instead of waiting for a worker forever.
+ */
+export class WorkerPool<T, W extends Worker> {
+
+    private readonly createWorker: () => Promise<W>;
+    private readonly processItem: (worker: W, item: T) => Promise<void>;
+    private readonly minWorkers: number;
+    private readonly maxWorkers: number;
+    private readonly maxRetries: number;
+    private readonly maxBacklog: number;
+    private readonly maxMemoryRatio: number;
+    private readonly maxErrorRate: number;
+    private readonly onRetry?: (item: T, error: unknown) => void;
+    private readonly onGiveUp?: (item: T, error: unknown) => void;
+
+    private readonly queue: Task<T>[] = [];
+    private readonly workers = new Set<W>();
+    private readonly recentResults: boolean[] = [];
+    private readonly waiters: (() => void)[] = [];
+    private targetWorkers: number;
+    private inProgress = 0;
+    private startingWorkers = 0;
+    private scaleTimer?: NodeJS.Timeout;
+    private failure?: unknown;
+    private closed = false;
+
+    constructor(createWorker: () => Promise<W>, processItem: (worker: W, item: T) => Promise<void>, options: WorkerPoolOptions<T>) {
+        this.createWorker = createWorker;
+        this.processItem = processItem;
+        this.minWorkers = Math.max(1, options.minWorkers ?? 1);
+        this.maxWorkers = Math.max(this.minWorkers, options.maxWorkers ?? options.initialWorkers);
+        this.maxRetries = options.maxRetries ?? 2;
+        this.maxBacklog = options.maxBacklog ?? 100;
+        this.maxMemoryRatio = options.maxMemoryRatio ?? 0.85;
+        this.maxErrorRate = options.maxErrorRate ?? 0.3;
+        this.onRetry = options.onRetry;
+        this.onGiveUp = options.onGiveUp;
+        this.targetWorkers = Math.min(this.maxWorkers, Math.max(this.minWorkers, options.initialWorkers));
+    }
+
+    get size() {
+        return this.workers.size;
+    }
+
+    get backlog() {
+        return this.queue.length + this.inProgress;
+    }
+
+    async start() {
+        await Promise.all(new Array(this.targetWorkers).fill(0).map(async () => this.addWorker()));
+        if (this.failure) throw this.failure;
+        this.scaleTimer = setInterval(() => {
+            void this.scale();
+        }, SCALE_INTERVAL_MS);
+    }
+
+    /**
+     * Queues the items and resolves once each of them was processed or gave up. Rejects if the pool has no worker left.
+     */
+    async process(items: T[]) {
+        if (this.failure) throw this.failure;
+        const done = items.map(async item => new Promise<void>((resolve, reject) => {
+            this.queue.push({ item, attempts: 0, done: resolve, fail: reject });
+        }));
+        this.notify();
+        await Promise.all(done);
+    }
+
+    async waitForCapacity() {
+        while (this.backlog >= this.maxBacklog && !this.closed && !this.failure)
+            await this.nextEvent();
+    }
+
+    async close() {
+        this.closed = true;
+        clearInterval(this.scaleTimer);
+        this.notify();
+        await Promise.all([...this.workers].map(async worker => worker.close()));
+        this.workers.clear();
+    }
+
+    private async nextEvent() {
+        return new Promise<void>(resolve => {
+            this.waiters.push(resolve);
+        });
+    }
+
+    private notify() {
+        for (const waiter of this.waiters.splice(0)) waiter();
+    }
+
+    private async addWorker() {
+        this.startingWorkers++;
+        let worker: W;
+        try {
+            worker = await this.createWorker();
+        } catch (error) {
+            console.error('Failed to start a worker:', error);
+            this.startingWorkers--;
+            this.targetWorkers = Math.max(this.minWorkers, this.targetWorkers - 1);
+            // the other workers carry on, but without any the queue would never move
+            if (this.workers.size === 0 && this.startingWorkers === 0) await this.replaceLastWorker();
+            return;
+        }
+        this.startingWorkers--;
+        await this.runOrClose(worker);
+    }
+
+    private async replaceLastWorker() {
+        this.startingWorkers++;
+        try {
+            await this.runOrClose(await exponentialBackoff(this.createWorker, LAST_WORKER_START_ATTEMPTS, 5000));
+        } catch (error) {
+            console.error(`Failed to start a worker after ${LAST_WORKER_START_ATTEMPTS} attempts, giving up:`, error);
+            this.fail(error);
+        } finally {
+            this.startingWorkers--;
+        }
+    }
+
+    private async runOrClose(worker: W) {
+        // the pool may have been closed while the worker started
+        if (this.closed) {
+            await worker.close();
+            return;
+        }
+        this.workers.add(worker);
+        void this.runWorker(worker);
+    }
+
+    private fail(error: unknown) {
+        this.failure = error;
+        for (const task of this.queue.splice(0)) task.fail(error);
+        this.notify();
+    }
+
+    private async runWorker(worker: W) {
+        while (!this.closed) {
+            if (this.workers.size > this.targetWorkers) {
+                this.workers.delete(worker);
+                await worker.close().catch(error => console.warn('Failed to close retired worker:', error));
+                console.log(`Retired a worker, ${this.workers.size} left`);
+                return;
+            }
+            const task = this.queue.shift();
+            if (!task) {
+                // new work, a shrinking target and closing the pool all notify
+                await this.nextEvent();
+                continue;
+            }
+            this.inProgress++;
+            try {
+                await this.processItem(worker, task.item);
+                this.recordResult(true);
+                task.done();
+            } catch (error) {
+                this.recordResult(false);
+                if (task.attempts < this.maxRetries) {
+                    task.attempts++;
+                    console.warn(`Attempt ${task.attempts} failed, putting item back on the queue:`, error instanceof Error ? error.message : error);
+                    this.onRetry?.(task.item, error);
+                    this.queue.push(task);
+                } else {
+                    console.error(`Giving up on item after ${task.attempts + 1} attempts:`, error);
+                    this.onGiveUp?.(task.item, error);
+                    task.done();
+                }
+            } finally {
+                this.inProgress--;
+                this.notify();
+            }
+        }
+    }
+
+    private recordResult(success: boolean) {
+        this.recentResults.push(success);
+        if (this.recentResults.length > ERROR_WINDOW) this.recentResults.shift();
+    }
+
+    // runs on a timer of its own, a worker busy with a slow item does not hold it back
+    private async scale() {
+        if (this.closed) return;
+        const errorRate = this.recentResults.filter(success => !success).length / Math.max(1, this.recentResults.length);
+        const memory = await getMemoryInfoV2().catch(() => null);
+        const memoryRatio = memory ? memory.usedBytes / memory.totalBytes : 0;
+
+        if ((memoryRatio > this.maxMemoryRatio || errorRate > this.maxErrorRate) && this.targetWorkers > this.minWorkers) {
+            this.targetWorkers--;
+            console.log(`Shrinking worker pool to ${this.targetWorkers} (memory ${Math.round(memoryRatio * 100)}%, error rate ${Math.round(errorRate * 100)}%)`);
+            this.notify();
+        } else if (this.queue.length > this.workers.size && memoryRatio < this.maxMemoryRatio - 0.15 && errorRate <= this.maxErrorRate / 2
+            && this.targetWorkers < this.maxWorkers && this.startingWorkers === 0) {
+            this.targetWorkers++;
+            console.log(`Growing worker pool to ${this.targetWorkers} (memory ${Math.round(memoryRatio * 100)}%, ${this.queue.length} items queued)`);
+            await this.addWorker();
+        }
+    }
+}
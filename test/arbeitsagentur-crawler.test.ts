@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+
+import { ArbeitsagenturCrawler } from '../src/arbeitsagentur-crawler.js';
+import type { Posting } from '../src/posting.js';
+import { RunBudget } from '../src/run-budget.js';
+import { browserAvailable } from './browser.js';
+import { FIXTURE_DIRECTORY } from './dom-page.js';
+
+const SEARCH_URL = 'https://www.arbeitsagentur.de/jobsuche/suche?angebotsart=1&was=Elektroniker&wo=Leipzig';
+
+describe.skipIf(!browserAvailable)('ArbeitsagenturCrawler on saved pages', () => {
+    it('reads the result list until its end and enriches every posting', { timeout: 120000 }, async () => {
+        const crawler = await ArbeitsagenturCrawler.construct(1, { fixtureDirectory: FIXTURE_DIRECTORY });
+        const saved: Posting[] = [];
+        try {
+            const count = await crawler.readPostings(SEARCH_URL, async postings => {
+                saved.push(...postings);
+            });
+            expect(count).toBe(2);
+        } finally {
+            await crawler.close();
+        }
+
+        const byId = Object.fromEntries(saved.map(posting => [posting.arbeitsagentur_id, posting]));
+        expect(Object.keys(byId).sort()).toEqual(['10000-1198765432-S', '12265-448811220-S']);
+        expect(byId['10000-1198765432-S']).toMatchObject({
+            company_name: 'Elektro Krause GmbH',
+            city: 'Leipzig',
+            post_date: new Date(2026, 9, 7).toISOString(),
+            email: 'bewerbung@elektro-krause.de',
+            company_size: 51,
+            enrichment_status: 'ok',
+        });
+        expect(byId['12265-448811220-S']).toMatchObject({
+            company_name: 'Haustechnik Vogel e.K.',
+            post_date: null,
+            start_date: null,
+            company_size: null,
+            email: null,
+            enrichment_status: 'ok',
+        });
+    });
+
+    it('throws the error of a failed save once paging stopped', { timeout: 120000 }, async () => {
+        const crawler = await ArbeitsagenturCrawler.construct(1, { fixtureDirectory: FIXTURE_DIRECTORY });
+        try {
+            await expect(crawler.readPostings(SEARCH_URL, async () => {
+                throw new Error('Dataset not writable');
+            })).rejects.toThrow('Dataset not writable');
+        } finally {
+            await crawler.close();
+        }
+    });
+
+    it('does not retry the 404 of a delisted posting', { timeout: 120000 }, async () => {
+        const budget = new RunBudget({ maxRequests: 2 });
+        const crawler = await ArbeitsagenturCrawler.construct(1, { fixtureDirectory: FIXTURE_DIRECTORY, pacing: { budget } });
+        try {
+            // the saved pages have no detail page for this id
+            expect(await crawler.isPostingOnline('10000-1100000000-S')).toBe(false);
+        } finally {
+            await crawler.close();
+        }
+        expect(budget.exhaustedReason()).toBeNull();
+    });
+});
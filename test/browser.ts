@@ -0,0 +1,7 @@
+import playwright from 'playwright';
+
+// tests that drive a real Chromium are skipped where none is installed, e.g. without `npx playwright install chromium`
+export const browserAvailable = await playwright.chromium.launch().then(async browser => {
+    await browser.close();
+    return true;
+}, () => false);
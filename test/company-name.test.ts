@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+
+import { companyKey } from '../src/company-store.js';
+import { normalizeCompanyName } from '../src/misc/company-name.js';
+
+describe('normalizeCompanyName', () => {
+    it.each([
+        ['Müller GmbH & Co. KG', 'mueller'],
+        ['Mueller GmbH', 'mueller'],
+        ['MÜLLER  GmbH & Co KG', 'mueller'],
+        ['Elektro Krause GmbH', 'elektro krause'],
+        ['Haustechnik Vogel e.K.', 'haustechnik vogel'],
+        ['Pflegedienst Sonnenschein gGmbH', 'pflegedienst sonnenschein'],
+        ['Bau-Service Schulze UG (haftungsbeschränkt) & Co. KG', 'bau service schulze'],
+        ['Straßenbau Weiß AG, Niederlassung Leipzig', 'strassenbau weiss niederlassung leipzig'],
+        ['Kanzlei Berg & Partner PartG mbB', 'kanzlei berg partner'],
+    ])('normalizes %s', (name, normalized) => {
+        expect(normalizeCompanyName(name)).toBe(normalized);
+    });
+
+    it('keeps legal forms that are part of a word', () => {
+        expect(normalizeCompanyName('Agentur Kagel')).toBe('agentur kagel');
+        expect(normalizeCompanyName('Segelschule Ohgen')).toBe('segelschule ohgen');
+    });
+});
+
+describe('companyKey', () => {
+    it('tells employers apart by name and postal code', () => {
+        expect(companyKey('Müller GmbH & Co. KG', 4107)).toBe(companyKey('Mueller GmbH', 4107));
+        expect(companyKey('Mueller GmbH', 4107)).toBe('mueller|4107');
+        expect(companyKey('Mueller GmbH', null)).toBe('mueller|');
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractContacts } from '../src/misc/contact.js';
+
+// descriptions as they appear on arbeitsagentur.de, with names and numbers changed
+const SAMPLES = {
+    applicationAndPersonal: `Wir freuen uns auf Ihre Bewerbung!
+Bitte senden Sie Ihre vollständigen Unterlagen per E-Mail an bewerbung@pflegedienst-sonnenschein.de.
+Für Rückfragen steht Ihnen Frau Melanie Hoffmann gerne zur Verfügung: melanie.hoffmann@pflegedienst-sonnenschein.de
+Tel.: 0351 4567890
+Fax: 0351 4567899`,
+    mobileWithDash: `Sie haben Interesse? Dann rufen Sie Herrn Becker an.
+Tel. 0171 123-4567
+Fax 0341 234567
+E-Mail: info@dachdeckerei-becker.de`,
+    referenceAndDates: `Referenznummer: 0815 4711 0042
+Eintritt zum 01.11.2026, Bewerbungsschluss 15/2026.
+Bewerbungen bitte an Kennziffer 02/2026 oder telefonisch unter 030 123456-78.
+Impressum: HRB 123456, USt-IdNr. DE123456789`,
+    unwantedMailboxes: `Datenschutzhinweise erhalten Sie unter datenschutz@stadtwerke-beispiel.de.
+Automatische Nachrichten kommen von noreply@stadtwerke-beispiel.de.
+Ihre Bewerbung richten Sie bitte an karriere@stadtwerke-beispiel.de.`,
+};
+
+function summary(text: string, links: string[] = []) {
+    return extractContacts(text, links).map(({ type, value, person }) => ({ type, value, person }));
+}
+
+describe('extractContacts', () => {
+    it('ranks the application mailbox over personal addresses, phone and fax', () => {
+        expect(summary(SAMPLES.applicationAndPersonal)).toEqual([
+            { type: 'email', value: 'bewerbung@pflegedienst-sonnenschein.de', person: null },
+            { type: 'email', value: 'melanie.hoffmann@pflegedienst-sonnenschein.de', person: 'Frau Melanie Hoffmann' },
+            { type: 'phone', value: '+493514567890', person: 'Frau Melanie Hoffmann' },
+            { type: 'fax', value: '+493514567899', person: 'Frau Melanie Hoffmann' },
+        ]);
+    });
+
+    it('keeps the context of every contact', () => {
+        const [, personal] = extractContacts(SAMPLES.applicationAndPersonal);
+        expect(personal.context).toContain('steht Ihnen Frau Melanie Hoffmann gerne zur Verfügung');
+        expect(personal.source).toBe('text');
+    });
+
+    it('counts mailto and tel links once and ranks confirmed contacts higher', () => {
+        const withoutLinks = extractContacts(SAMPLES.applicationAndPersonal);
+        const withLinks = extractContacts(SAMPLES.applicationAndPersonal, ['mailto:Bewerbung@pflegedienst-sonnenschein.de?subject=Bewerbung', 'tel:+49%20351%204567890']);
+        expect(withLinks.map(contact => contact.value)).toEqual(withoutLinks.map(contact => contact.value));
+        const phone = (contacts: typeof withLinks) => contacts.find(contact => contact.type === 'phone')!.score;
+        expect(phone(withLinks)).toBe(phone(withoutLinks) + 5);
+    });
+
+    it('adds contacts that are only linked', () => {
+        expect(summary('Bewerben Sie sich jetzt!', ['mailto:jobs@beispiel.de', 'tel:0341-2345678', 'tel:12'])).toEqual([
+            { type: 'email', value: 'jobs@beispiel.de', person: null },
+            { type: 'phone', value: '+493412345678', person: null },
+        ]);
+    });
+
+    it('reads a mobile number written with a dash next to a fax number', () => {
+        expect(summary(SAMPLES.mobileWithDash)).toEqual([
+            { type: 'email', value: 'info@dachdeckerei-becker.de', person: 'Herrn Becker' },
+            { type: 'phone', value: '+491711234567', person: 'Herrn Becker' },
+            { type: 'fax', value: '+49341234567', person: 'Herrn Becker' },
+        ]);
+    });
+
+    it('skips reference numbers, dates and register numbers', () => {
+        const contacts = extractContacts(SAMPLES.referenceAndDates);
+        expect(contacts.map(({ type, value }) => ({ type, value }))).toEqual([{ type: 'phone', value: '+493012345678' }]);
+        expect(contacts[0].phone).toMatchObject({ extension: '78', line_type: 'landline' });
+    });
+
+    it('ranks no-reply and privacy mailboxes last', () => {
+        expect(summary(SAMPLES.unwantedMailboxes).map(contact => contact.value)).toEqual([
+            'karriere@stadtwerke-beispiel.de',
+            'noreply@stadtwerke-beispiel.de',
+            'datenschutz@stadtwerke-beispiel.de',
+        ]);
+    });
+
+    it('returns the same ranking on every run', () => {
+        expect(extractContacts(SAMPLES.applicationAndPersonal)).toEqual(extractContacts(SAMPLES.applicationAndPersonal));
+    });
+
+    it('finds nothing in an empty description', () => {
+        expect(extractContacts(null)).toEqual([]);
+        expect(extractContacts('Wir suchen Verstärkung für unser Team.')).toEqual([]);
+    });
+});
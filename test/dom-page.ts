@@ -0,0 +1,62 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { JSDOM } from 'jsdom';
+
+import type { Crawler } from '../src/crawler.js';
+
+export const FIXTURE_DIRECTORY = path.join(import.meta.dirname, 'fixtures', 'arbeitsagentur');
+
+/**
+ * Answers the page reads of a `Crawler` from saved HTML, so the extraction can be tested without a browser. jsdom does
+ * no layout, `innerText` is the text content of an element: fixtures put labels and values on lines of their own.
+ */
+export class DomPage implements Pick<Crawler, 'evaluate' | 'getTextWithId' | 'getPageText' | 'getLinkUrl' | 'getTextsWithIdPrefix' | 'getLinkUrlsWithSelector'> {
+
+    static async open(fileName: string, url = 'https://www.arbeitsagentur.de/jobsuche/') {
+        return new DomPage(await readFile(path.join(FIXTURE_DIRECTORY, fileName), 'utf8'), url);
+    }
+
+    readonly dom: JSDOM;
+
+    constructor(html: string, url: string) {
+        this.dom = new JSDOM(html, { url, runScripts: 'outside-only' });
+        Object.defineProperty(this.dom.window.HTMLElement.prototype, 'innerText', {
+            get(this: HTMLElement) {
+                return this.textContent;
+            },
+        });
+    }
+
+    get document() {
+        return this.dom.window.document;
+    }
+
+    // like Playwright, the function is serialized and runs in the page
+    async evaluate<R, Arg>(pageFunction: (arg: Arg) => R | Promise<R>, arg: Arg): Promise<R> {
+        const evaluate = this.dom.window.eval(`(${pageFunction.toString()})`) as (arg: Arg) => R | Promise<R>;
+        return evaluate(JSON.parse(JSON.stringify(arg)) as Arg);
+    }
+
+    async getTextWithId(id: string) {
+        return this.document.getElementById(id)?.textContent ?? undefined;
+    }
+
+    async getPageText() {
+        return this.document.body.textContent ?? '';
+    }
+
+    async getLinkUrl(id: string, canBeMissing = false) {
+        const link = this.document.querySelector<HTMLAnchorElement>(`a[id="${id}"]`);
+        if (!link && !canBeMissing) throw new Error(`Link with selector ${id} not found`);
+        return link ? link.href : null;
+    }
+
+    async getTextsWithIdPrefix(prefix: string) {
+        return [...this.document.querySelectorAll(`[id^="${prefix}"]`)].map(element => element.textContent ?? '');
+    }
+
+    async getLinkUrlsWithSelector(selector: string) {
+        return [...this.document.querySelectorAll<HTMLAnchorElement>(selector)].map(link => link.href);
+    }
+}
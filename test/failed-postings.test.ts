@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import type { FailedPostingRecord } from '../src/failed-postings.js';
+import { failedPostingRecords, postingsToRetry, postingStub } from '../src/failed-postings.js';
+import { markSeen } from '../src/posting-batch.js';
+import { SeenStore } from '../src/seen-store.js';
+
+function failedRecord(id: string, failedAt: string, fields: Partial<FailedPostingRecord> = {}): Partial<FailedPostingRecord> {
+    return { ...postingStub(id), company_name: 'Elektro Krause GmbH', enrichment_status: 'failed', enrichment_error: 'timeout', failed_at: failedAt, ...fields };
+}
+
+async function openSeenStore() {
+    return SeenStore.open({ getValue: async () => null, setValue: async () => undefined });
+}
+
+describe('postingsToRetry', () => {
+    it('keeps the latest record of a posting and resets its enrichment', () => {
+        const postings = postingsToRetry([
+            failedRecord('10000-1198765432-S', '2026-10-01T06:00:00.000Z', { raw_job_title: 'Elektroniker' }),
+            failedRecord('10000-1198765432-S', '2026-10-08T06:00:00.000Z', { raw_job_title: 'Elektroniker (m/w/d)' }),
+        ], []);
+        expect(postings).toHaveLength(1);
+        expect(postings[0]).toMatchObject({ arbeitsagentur_id: '10000-1198765432-S', raw_job_title: 'Elektroniker (m/w/d)', enrichment_status: undefined });
+        expect(postings[0]).not.toHaveProperty('failed_at');
+    });
+
+    it('leaves out postings whose detail page was read after they failed', async () => {
+        const seenStore = await openSeenStore();
+        const enriched = { ...postingStub('10000-1198765432-S'), enrichment_status: 'ok' as const };
+        const failedAgain = { ...postingStub('12265-448811220-S'), enrichment_status: 'failed' as const };
+        markSeen([enriched, failedAgain], seenStore);
+
+        const postings = postingsToRetry([
+            failedRecord('10000-1198765432-S', '2026-10-01T06:00:00.000Z'),
+            failedRecord('12265-448811220-S', '2026-10-01T06:00:00.000Z'),
+        ], [], seenStore);
+        expect(postings.map(posting => posting.arbeitsagentur_id)).toEqual(['12265-448811220-S']);
+    });
+
+    it('retries a posting that failed again after it was read', async () => {
+        const seenStore = await openSeenStore();
+        seenStore.sight('10000-1198765432-S', new Date('2026-10-05T06:00:00.000Z'), true);
+        const postings = postingsToRetry([failedRecord('10000-1198765432-S', '2026-10-08T06:00:00.000Z')], [], seenStore);
+        expect(postings).toHaveLength(1);
+    });
+
+    it('adds given ids that have no record', () => {
+        const postings = postingsToRetry([failedRecord('10000-1198765432-S', '2026-10-01T06:00:00.000Z')], [' 12265-448811220-S ', '10000-1198765432-S', '']);
+        expect(postings.map(posting => posting.arbeitsagentur_id)).toEqual(['10000-1198765432-S', '12265-448811220-S']);
+        expect(postings[1]).toEqual(postingStub('12265-448811220-S'));
+    });
+});
+
+describe('failedPostingRecords', () => {
+    it('records only the postings that failed', () => {
+        const now = new Date('2026-10-08T06:00:00.000Z');
+        const records = failedPostingRecords([
+            { ...postingStub('10000-1198765432-S'), enrichment_status: 'ok' },
+            { ...postingStub('12265-448811220-S'), enrichment_status: 'failed' },
+        ], now);
+        expect(records).toEqual([{ ...postingStub('12265-448811220-S'), enrichment_status: 'failed', failed_at: now.toISOString() }]);
+    });
+});
@@ -0,0 +1,50 @@
+import type { IncomingMessage, ServerResponse } from 'node:http';
+import { createServer } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export type StubRequest = {
+    method: string;
+    url: string;
+    headers: IncomingMessage['headers'];
+    body: string;
+};
+
+export type HttpStub = {
+    // e.g. http://127.0.0.1:54321
+    url: string;
+    requests: StubRequest[];
+    close(): Promise<void>;
+};
+
+/**
+ * A local HTTP server for tests that records every request and answers it with `handler`.
+ */
+export async function startHttpStub(handler: (request: StubRequest, response: ServerResponse) => void | Promise<void>): Promise<HttpStub> {
+    const requests: StubRequest[] = [];
+    const server = createServer(async (message, response) => {
+        const chunks: Buffer[] = [];
+        for await (const chunk of message) chunks.push(chunk as Buffer);
+        const request = { method: message.method ?? 'GET', url: message.url ?? '/', headers: message.headers, body: Buffer.concat(chunks).toString('utf8') };
+        requests.push(request);
+        await handler(request, response);
+    });
+    await new Promise<void>(resolve => {
+        server.listen(0, '127.0.0.1', resolve);
+    });
+    const { port } = server.address() as AddressInfo;
+    return {
+        url: `http://127.0.0.1:${port}`,
+        requests,
+        async close() {
+            server.closeAllConnections();
+            await new Promise(resolve => {
+                server.close(resolve);
+            });
+        },
+    };
+}
+
+export function sendJsonResponse(response: ServerResponse, status: number, body: unknown) {
+    response.writeHead(status, { 'Content-Type': 'application/json' });
+    response.end(JSON.stringify(body));
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+
+import { parseImprint } from '../src/misc/imprint.js';
+
+describe('parseImprint', () => {
+    it('reads legal name, register entry and managing directors', () => {
+        const text = `Impressum
+Angaben gemäß § 5 TMG
+Elektro Krause GmbH
+Karl-Liebknecht-Straße 12
+04107 Leipzig
+Vertreten durch den Geschäftsführer: Thomas Krause
+Registergericht: Amtsgericht Leipzig
+Registernummer: HRB 12345
+USt-IdNr.: DE123456789`;
+        expect(parseImprint(text)).toEqual({
+            legal_name: 'Elektro Krause GmbH',
+            register_number: 'HRB 12345',
+            register_court: 'Leipzig',
+            managing_directors: ['Thomas Krause'],
+        });
+    });
+
+    it('reads several directors from the line after the heading', () => {
+        const text = `Stadtwerke Beispiel GmbH & Co. KG
+Geschäftsführung:
+Dr. Anna Schmidt, Peter von Berg und Frau Julia Weiß
+Handelsregister: Amtsgericht Frankfurt am Main, HRA Nr. 4711 B`;
+        expect(parseImprint(text)).toEqual({
+            legal_name: 'Stadtwerke Beispiel GmbH & Co. KG',
+            register_number: 'HRA 4711B',
+            register_court: 'Frankfurt am Main',
+            managing_directors: ['Dr. Anna Schmidt', 'Peter von Berg', 'Frau Julia Weiß'],
+        });
+    });
+
+    it('reads the owner of a sole proprietorship', () => {
+        expect(parseImprint('Haustechnik Vogel e.K.\nInhaber: Martin Vogel\nTelefon: 0341 987654')).toMatchObject({
+            legal_name: 'Haustechnik Vogel e.K.',
+            register_number: null,
+            managing_directors: ['Martin Vogel'],
+        });
+    });
+
+    it('leaves out what is no name of a person', () => {
+        expect(parseImprint('Geschäftsführer: siehe Handelsregister').managing_directors).toEqual([]);
+        expect(parseImprint('Vorstand: info@verein-beispiel.de').managing_directors).toEqual([]);
+    });
+
+    it('finds nothing in an empty page', () => {
+        expect(parseImprint(null)).toEqual({ legal_name: null, register_number: null, register_court: null, managing_directors: [] });
+    });
+});
@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+
+import { extractJobDetails, extractPostingHeader } from '../src/job-detail.js';
+import { parseCompanySize } from '../src/misc/company-size.js';
+import { DomPage } from './dom-page.js';
+
+const FULL_DETAIL_PAGE = 'www_arbeitsagentur_de_jobsuche_jobdetail_10000-1198765432-S.html';
+// a posting that shows neither website, company size, salary, contract nor contact person
+const SPARSE_DETAIL_PAGE = 'www_arbeitsagentur_de_jobsuche_jobdetail_12265-448811220-S.html';
+
+describe('extractJobDetails', () => {
+    it('reads all fields of a detail page', async () => {
+        const details = await extractJobDetails(await DomPage.open(FULL_DETAIL_PAGE));
+        expect(details).toMatchObject({
+            postal_code: 4347,
+            street: 'Torgauer Straße 231',
+            email: 'bewerbung@elektro-krause.de',
+            phone: '+493412345678',
+            website: 'https://www.elektro-krause.de/',
+            company_size: 51,
+            salary: '3.200 € - 3.800 € brutto monatlich',
+            working_time: ['Vollzeit', 'Schicht/Nacht/Wochenende'],
+            contract_type: 'unbefristet',
+            occupation: 'Elektroniker/in - Energie- und Gebäudetechnik',
+            reference_number: '10000-1198765432-S',
+            positions: 2,
+            qualifications: ['Elektroinstallation', 'Führerschein Klasse B'],
+            contact_person_name: 'Frau Sabine Krause',
+            contact_person_title: 'Personalleitung',
+            application_channels: ['email'],
+            enrichment_status: 'ok',
+            enrichment_error: null,
+        });
+    });
+
+    it('leaves missing optional elements empty without marking the page as partial', async () => {
+        const details = await extractJobDetails(await DomPage.open(SPARSE_DETAIL_PAGE));
+        expect(details).toMatchObject({
+            postal_code: 4416,
+            street: 'Hauptstraße 12',
+            email: null,
+            phone: null,
+            website: null,
+            salary: null,
+            working_time: null,
+            contract_type: null,
+            positions: null,
+            qualifications: null,
+            contact_person_name: null,
+            application_channels: ['post'],
+            enrichment_status: 'ok',
+        });
+        expect(details.company_size ?? null).toBeNull();
+    });
+
+    it('marks a page without content as partial', async () => {
+        const details = await extractJobDetails(await DomPage.open('www_arbeitsagentur_de_jobsuche.html'));
+        expect(details.enrichment_status).toBe('partial');
+        expect(details.enrichment_error).toBe('Could not read page content');
+    });
+});
+
+describe('extractPostingHeader', () => {
+    it('reads company and job title', async () => {
+        expect(await extractPostingHeader(await DomPage.open(SPARSE_DETAIL_PAGE))).toEqual({
+            raw_job_title: 'Elektroniker für Betriebstechnik (m/w/d)',
+            company_name: 'Haustechnik Vogel e.K.',
+        });
+    });
+});
+
+describe('parseCompanySize', () => {
+    it.each([
+        ['51 bis 500', 51],
+        ['1 bis 5 Mitarbeiter', 1],
+        ['über 5.000', 5000],
+        ['1.000 bis 4.999 Beschäftigte', 1000],
+        ['250', 250],
+    ])('reads the lower bound of "%s"', (text, size) => {
+        expect(parseCompanySize(text)).toBe(size);
+    });
+
+    it.each([null, undefined, '', 'keine Angabe'])('has no size for %j', text => {
+        expect(parseCompanySize(text)).toBeNull();
+    });
+});
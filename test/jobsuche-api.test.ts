@@ -0,0 +1,141 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { JobsucheApiClient, searchUrlToApiParams } from '../src/jobsuche-api.js';
+import { JobsucheApiCrawler } from '../src/jobsuche-api-crawler.js';
+import type { Posting } from '../src/posting.js';
+import { RunBudget } from '../src/run-budget.js';
+import type { HttpStub } from './http-stub.js';
+import { sendJsonResponse, startHttpStub } from './http-stub.js';
+
+const FIXTURE_DIRECTORY = path.join(import.meta.dirname, 'fixtures', 'jobsuche-api');
+const SEARCH_URL = 'https://www.arbeitsagentur.de/jobsuche/suche?angebotsart=1&was=Elektroniker&wo=Leipzig&umkreis=25';
+
+async function readFixture(name: string) {
+    return JSON.parse(await readFile(path.join(FIXTURE_DIRECTORY, name), 'utf8')) as unknown;
+}
+
+// answers like the jobsuche API from the recorded responses, job details without a fixture are 404
+async function startApiStub() {
+    return startHttpStub(async (request, response) => {
+        const { pathname } = new URL(request.url, 'http://localhost');
+        if (pathname === '/pc/v4/jobs') {
+            sendJsonResponse(response, 200, await readFixture('search-elektroniker-leipzig.json'));
+            return;
+        }
+        const refnr = Buffer.from(pathname.replace('/pc/v2/jobdetails/', ''), 'base64').toString('utf8');
+        const detail = await readFixture(`jobdetail-${refnr}.json`).catch(() => null);
+        if (detail) sendJsonResponse(response, 200, detail);
+        else sendJsonResponse(response, 404, { message: 'Not Found' });
+    });
+}
+
+let stub: HttpStub | undefined;
+
+afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+});
+
+describe('searchUrlToApiParams', () => {
+    it('keeps the search parameters the API understands', () => {
+        expect(`${searchUrlToApiParams(`${SEARCH_URL}&sort=veroeffdatum`)}`).toBe('was=Elektroniker&wo=Leipzig&umkreis=25&angebotsart=1');
+    });
+});
+
+describe('JobsucheApiCrawler', () => {
+    it('reads the listings and their details into postings', async () => {
+        stub = await startApiStub();
+        const crawler = new JobsucheApiCrawler(2, { apiBaseUrl: stub.url });
+        const saved: Posting[] = [];
+        const count = await crawler.readPostings(SEARCH_URL, async postings => {
+            saved.push(...postings);
+        });
+
+        expect(count).toBe(2);
+        expect(stub.requests[0].url).toBe('/pc/v4/jobs?was=Elektroniker&wo=Leipzig&umkreis=25&angebotsart=1&page=1&size=100');
+        expect(stub.requests[0].headers['x-api-key']).toBe('jobboerse-jobsuche');
+        const [krause, vogel] = saved;
+        expect(krause).toMatchObject({
+            arbeitsagentur_id: '10000-1198765432-S',
+            company_name: 'Elektro Krause GmbH',
+            city: 'Leipzig',
+            postal_code: 4347,
+            street: 'Torgauer Straße 231',
+            start_date: '01.11.2026',
+            post_date: new Date(2026, 9, 7).toISOString(),
+            email: 'bewerbung@elektro-krause.de',
+            phone: '+493412345678',
+            website: 'https://www.elektro-krause.de/',
+            company_size: 51,
+            contract_type: 'unbefristet',
+            positions: 2,
+            qualifications: ['Elektroinstallation', 'Führerschein Klasse B'],
+            contact_person_name: 'Frau Sabine Krause',
+            contact_person_title: 'Personalleitung',
+            from_search_url: SEARCH_URL,
+            enrichment_status: 'ok',
+        });
+        // the second posting has no detail fixture, as if it was delisted in between
+        expect(vogel).toMatchObject({ arbeitsagentur_id: '12265-448811220-S', company_name: 'Haustechnik Vogel e.K.', start_date: null, enrichment_status: 'failed' });
+        expect(vogel.enrichment_error).toMatch(/: 404$/);
+    });
+
+    it('tells delisted postings apart from postings that could not be checked', async () => {
+        stub = await startApiStub();
+        const crawler = new JobsucheApiCrawler(1, { apiBaseUrl: stub.url });
+        expect(await crawler.isPostingOnline('10000-1198765432-S')).toBe(true);
+        expect(await crawler.isPostingOnline('12265-448811220-S')).toBe(false);
+    });
+
+    it('rejects when a batch fails to save while the next page loads', async () => {
+        let saveFailed: () => void = () => undefined;
+        const failedSave = new Promise<void>(resolve => {
+            saveFailed = resolve;
+        });
+        stub = await startHttpStub(async (request, response) => {
+            const { pathname, searchParams } = new URL(request.url, 'http://localhost');
+            if (pathname !== '/pc/v4/jobs') {
+                sendJsonResponse(response, 404, { message: 'Not Found' });
+                return;
+            }
+            const page = Number(searchParams.get('page'));
+            // the second page answers only after the first batch failed
+            if (page > 1) await failedSave;
+            const listings = Array.from({ length: 100 }, (_, index) => ({ refnr: `10000-${page * 1000 + index}-S`, arbeitgeber: 'Elektro Krause GmbH' }));
+            sendJsonResponse(response, 200, { stellenangebote: listings, maxErgebnisse: '300' });
+        });
+        const crawler = new JobsucheApiCrawler(4, { apiBaseUrl: stub.url });
+        await expect(crawler.readPostings(SEARCH_URL, async () => {
+            saveFailed();
+            throw new Error('Dataset not writable');
+        })).rejects.toThrow('Dataset not writable');
+        // paging stops after the page that was loading
+        expect(stub.requests.filter(request => request.url.startsWith('/pc/v4/jobs'))).toHaveLength(2);
+    });
+
+    it('counts the results of a search', async () => {
+        stub = await startApiStub();
+        expect(await new JobsucheApiCrawler(1, { apiBaseUrl: stub.url }).countResults(SEARCH_URL)).toBe(2);
+    });
+});
+
+describe('JobsucheApiClient', () => {
+    it('does not retry a 404', async () => {
+        stub = await startHttpStub((_, response) => sendJsonResponse(response, 404, {}));
+        await expect(new JobsucheApiClient(stub.url).jobDetail('10000-1198765432-S')).rejects.toThrow(/: 404$/);
+        expect(stub.requests).toHaveLength(1);
+    });
+
+    it('retries throttled and failed requests', async () => {
+        const statuses = [429, 503];
+        stub = await startHttpStub((_, response) => sendJsonResponse(response, statuses.shift() ?? 200, { refnr: '10000-1198765432-S' }));
+        const budget = new RunBudget({ maxRequests: 3 });
+        await expect(new JobsucheApiClient(stub.url, { budget }).jobDetail('10000-1198765432-S')).resolves.toEqual({ refnr: '10000-1198765432-S' });
+        expect(stub.requests).toHaveLength(3);
+        // every attempt counts against the request limit
+        expect(budget.exhaustedReason()).toBe('request limit of 3 reached');
+    });
+});
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest';
+
+import { postingStub } from '../src/failed-postings.js';
+import { createCompanyFilter, LeadScorer } from '../src/lead-score.js';
+import { detectEmployerType } from '../src/misc/employer-type.js';
+import type { Posting } from '../src/posting.js';
+
+const NOW = new Date('2026-10-16T06:00:00.000Z');
+
+function posting(fields: Partial<Posting> = {}): Posting {
+    return {
+        ...postingStub('10000-1198765432-S'),
+        company_name: 'Elektro Krause GmbH',
+        city: 'Leipzig',
+        post_date: NOW.toISOString(),
+        email: 'bewerbung@elektro-krause.de',
+        phone: '+493419876540',
+        website: 'https://www.elektro-krause.de/',
+        company_size: 51,
+        ...fields,
+    };
+}
+
+describe('LeadScorer', () => {
+    it('gives a recent direct posting with all contacts full points', () => {
+        const { lead_score: score, lead_score_breakdown: breakdown, employer_type: type } = new LeadScorer().score(posting(), NOW);
+        expect(score).toBe(100);
+        expect(type).toBe('direct');
+        // company size and industry have no target, the other weights are scaled up to 100
+        expect(breakdown).toEqual({
+            contact: { points: 46.7, max_points: 46.7, reason: 'email, phone, website' },
+            recency: { points: 26.7, max_points: 26.7, reason: 'published 0 days ago' },
+            employer_type: { points: 26.7, max_points: 26.7, reason: 'direct' },
+        });
+    });
+
+    it('explains the points a weaker lead misses', () => {
+        const weak = posting({
+            company_name: 'Randstad Deutschland GmbH & Co. KG',
+            phone: null,
+            website: null,
+            post_date: new Date(NOW.getTime() - 15 * 24 * 60 * 60 * 1000).toISOString(),
+        });
+        const { lead_score: score, lead_score_breakdown: breakdown } = new LeadScorer().score(weak, NOW);
+        expect(breakdown).toMatchObject({
+            contact: { points: 23.3, reason: 'email' },
+            recency: { points: 13.3, reason: 'published 15 days ago' },
+            employer_type: { points: 0, reason: 'temporary_agency' },
+        });
+        expect(score).toBe(37);
+    });
+
+    it('scores company size and industry once they have a target', () => {
+        const scorer = new LeadScorer({ weights: { contact: 0, recency: 0, employer_type: 0 }, companySizeMin: 10, companySizeMax: 49, targetIndustries: ['7', 'elektro'] });
+        expect(scorer.score(posting(), NOW).lead_score_breakdown).toEqual({
+            company_size: { points: 0, max_points: 60, reason: '51 employees, target 10-49 employees' },
+            industry: { points: 40, max_points: 40, reason: 'matches elektro' },
+        });
+        const fromSearch = posting({ company_name: 'Vogel e.K.', company_size: null, from_search_url: 'https://www.arbeitsagentur.de/jobsuche/suche?was=Elektroniker&branche=7;9' });
+        expect(scorer.score(fromSearch, NOW).lead_score_breakdown).toEqual({
+            company_size: { points: 0, max_points: 60, reason: 'size unknown, target 10-49 employees' },
+            industry: { points: 40, max_points: 40, reason: 'matches 7' },
+        });
+    });
+
+    it('gives no recency points without a publication date', () => {
+        expect(new LeadScorer().score(posting({ post_date: null }), NOW).lead_score_breakdown.recency).toEqual({ points: 0, max_points: 26.7, reason: 'publication date unknown' });
+    });
+
+    it('scores postings in place', () => {
+        const postings = [posting(), posting({ email: null, phone: null, website: null })];
+        new LeadScorer().scorePostings(postings, NOW);
+        expect(postings.map(scored => scored.lead_score)).toEqual([100, 53]);
+    });
+});
+
+describe('detectEmployerType', () => {
+    it.each([
+        ['Elektro Krause GmbH', null, 'direct'],
+        ['Randstad Deutschland GmbH & Co. KG', null, 'temporary_agency'],
+        ['Meyer Zeitarbeit GmbH', null, 'temporary_agency'],
+        ['Hays Recruiting Experts GmbH', null, 'recruitment_agency'],
+        ['Schmidt Personal GmbH', 'Wir suchen im Rahmen der Arbeitnehmerüberlassung nach dem iGZ-Tarif ...', 'temporary_agency'],
+        ['Schmidt Consulting', 'Für unseren Kunden, ein Stadtwerk in Leipzig, suchen wir ...', 'recruitment_agency'],
+        ['Elektro Krause GmbH', 'Eine feste Anstellung bei uns, keine Zeitarbeit.', 'direct'],
+    ])('tells %s apart', (name, description, type) => {
+        expect(detectEmployerType(name, description)).toBe(type);
+    });
+});
+
+describe('createCompanyFilter', () => {
+    it('drops blocked companies under any legal form and spelling', () => {
+        const keep = createCompanyFilter({ blocklist: ['Elektro Krause', ''] });
+        expect(keep(posting({ company_name: 'ELEKTRO KRAUSE GmbH & Co. KG' }))).toBe(false);
+        expect(keep(posting({ company_name: 'Elektro Krause Leipzig GmbH' }))).toBe(false);
+        expect(keep(posting({ company_name: 'Elektro Krauseneck GmbH' }))).toBe(true);
+    });
+
+    it('drops excluded employer types, from the description as well', () => {
+        const keep = createCompanyFilter({ excludeTypes: ['temporary_agency'] });
+        expect(keep(posting({ company_name: 'Randstad Deutschland GmbH & Co. KG' }))).toBe(false);
+        expect(keep(posting({ description: 'Einsatz im Rahmen der Arbeitnehmerüberlassung.' }))).toBe(false);
+        expect(keep(posting({ employer_type: 'recruitment_agency' }))).toBe(true);
+        expect(keep(posting())).toBe(true);
+    });
+});
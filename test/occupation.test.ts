@@ -0,0 +1,89 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { postingStub } from '../src/failed-postings.js';
+import { createOccupationFilter, normalizeJobTitle, OccupationClassifier } from '../src/occupation.js';
+import type { Posting } from '../src/posting.js';
+
+let classifier: OccupationClassifier;
+
+beforeAll(async () => {
+    classifier = await OccupationClassifier.load();
+});
+
+function posting(title: string, fields: Partial<Posting> = {}): Posting {
+    return { ...postingStub('10000-1198765432-S'), raw_job_title: title, ...fields };
+}
+
+describe('normalizeJobTitle', () => {
+    it.each([
+        ['Zahnmedizinische/r Fachangestellte/r (m/w/d) in Köln', 'Köln', 'Zahnmedizinische Fachangestellte'],
+        ['Elektroniker (m/w/d) für Energie- und Gebäudetechnik', 'Leipzig', 'Elektroniker für Energie- und Gebäudetechnik'],
+        ['Kauffrau/-mann für Büromanagement', null, 'Kaufmann für Büromanagement'],
+        ['Pflegefachmann/-frau (m/w/d)', null, 'Pflegefachmann'],
+        ['Koch/Köchin in Vollzeit', null, 'Koch'],
+        ['Mitarbeiter*in Kundenservice', null, 'Mitarbeiter Kundenservice'],
+        ['Senior Softwareentwickler (all genders)', null, 'Softwareentwickler'],
+        ['Erzieher/in - Kita Sonnenschein Leipzig-Gohlis', 'Leipzig', 'Erzieher - Kita Sonnenschein'],
+    ])('normalizes %s', (title, city, normalized) => {
+        expect(normalizeJobTitle(title, city)).toBe(normalized);
+    });
+
+    it('has no title for an empty one', () => {
+        expect(normalizeJobTitle(null)).toBeNull();
+        expect(normalizeJobTitle(' (m/w/d) ')).toBeNull();
+    });
+});
+
+describe('OccupationClassifier', () => {
+    it.each([
+        ['Zahnmedizinische/r Fachangestellte/r (m/w/d)', '811', 'fachkraft'],
+        ['Elektroniker (m/w/d) für Energie- und Gebäudetechnik', '262', 'fachkraft'],
+        ['Kauffrau/-mann für Büromanagement', '714', 'fachkraft'],
+        ['Fachkraft für Lagerlogistik', '513', 'fachkraft'],
+        ['Lagerhelfer (m/w/d)', '513', 'helfer'],
+        // the end of a compound word
+        ['Auslieferungsfahrer (m/w/d)', '521', 'helfer'],
+    ])('classifies %s', (title, code, level) => {
+        expect(classifier.classify(posting(title))).toMatchObject({ occupation_code: code, occupation_level: level });
+    });
+
+    it('takes the level from words in the title', () => {
+        expect(classifier.classify(posting('Elektroingenieur (m/w/d)'))).toMatchObject({ occupation_code: '263', occupation_level: 'experte' });
+        expect(classifier.classify(posting('Senior Softwareentwickler (all genders)'))).toMatchObject({ occupation_code: '434', occupation_level: 'spezialist' });
+        // a level word alone places no occupation
+        expect(classifier.classify(posting('Elektromeister (m/w/d)'))).toMatchObject({ occupation_code: null, occupation_level: 'spezialist' });
+    });
+
+    it('prefers the occupation the Bundesagentur assigned to the title', () => {
+        expect(classifier.classify(posting('Top Job!', { occupation: 'Pflegefachmann/-frau' }))).toEqual({
+            normalized_job_title: 'Top Job!',
+            occupation_code: '813',
+            occupation_group: 'Gesundheits-, Krankenpflege, Rettungsdienst und Geburtshilfe',
+            occupation_level: 'fachkraft',
+        });
+    });
+
+    it('leaves unknown titles unclassified', () => {
+        expect(classifier.classify(posting('Superheld (m/w/d)'))).toEqual({
+            normalized_job_title: 'Superheld',
+            occupation_code: null,
+            occupation_group: null,
+            occupation_level: null,
+        });
+    });
+});
+
+describe('createOccupationFilter', () => {
+    it('keeps postings whose code starts with one of the codes and classifies them', () => {
+        const keepHealthcare = createOccupationFilter(classifier, [' 81 ', '']);
+        const assistant = posting('Zahnmedizinische/r Fachangestellte/r (m/w/d)');
+        expect(keepHealthcare(assistant)).toBe(true);
+        expect(assistant.occupation_code).toBe('811');
+        expect(keepHealthcare(posting('Elektroniker (m/w/d)'))).toBe(false);
+        expect(keepHealthcare(posting('Superheld (m/w/d)'))).toBe(false);
+    });
+
+    it('matches five digit codes by their group', () => {
+        expect(createOccupationFilter(classifier, ['26252'])(posting('Elektroniker (m/w/d) für Energie- und Gebäudetechnik'))).toBe(true);
+    });
+});
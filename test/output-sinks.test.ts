@@ -0,0 +1,159 @@
+import { crc32, inflateRawSync } from 'node:zlib';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { Posting } from '../src/posting.js';
+import { exportPostings, fileExportSink, rowsToCsv } from '../src/sinks/file-export-sink.js';
+import { upsertSink } from '../src/sinks/upsert-sink.js';
+import { SIGNATURE_HEADER, signPayload, webhookSink } from '../src/sinks/webhook-sink.js';
+import type { HttpStub } from './http-stub.js';
+import { sendJsonResponse, startHttpStub } from './http-stub.js';
+
+function posting(id: string, fields: Partial<Posting> = {}): Posting {
+    return {
+        company_name: 'Elektro Krause GmbH',
+        city: 'Leipzig',
+        arbeitsagentur_id: id,
+        start_date: null,
+        post_date: null,
+        raw_job_title: 'Elektroniker (m/w/d)',
+        postal_code: 4107,
+        street: 'Karl-Liebknecht-Straße 12',
+        email: 'bewerbung@elektro-krause.de',
+        phone: '+493419876540',
+        website: null,
+        company_size: 51,
+        ...fields,
+    };
+}
+
+// the files of a ZIP archive by name, checking the CRC of every file
+function readZip(archive: Buffer) {
+    const files = new Map<string, string>();
+    let offset = 0;
+    while (archive.readUInt32LE(offset) === 0x04034b50) {
+        const compressedSize = archive.readUInt32LE(offset + 18);
+        const nameLength = archive.readUInt16LE(offset + 26);
+        const name = archive.subarray(offset + 30, offset + 30 + nameLength).toString('utf8');
+        const dataStart = offset + 30 + nameLength;
+        const content = inflateRawSync(archive.subarray(dataStart, dataStart + compressedSize));
+        expect(crc32(content)).toBe(archive.readUInt32LE(offset + 14));
+        files.set(name, content.toString('utf8'));
+        offset = dataStart + compressedSize;
+    }
+    return files;
+}
+
+let stub: HttpStub | undefined;
+
+afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+});
+
+describe('webhookSink', () => {
+    it('posts full batches right away and the rest on close', async () => {
+        stub = await startHttpStub((_, response) => sendJsonResponse(response, 200, { ok: true }));
+        const sink = webhookSink({ url: `${stub.url}/hooks/leads`, batchSize: 2 });
+        await sink.write([posting('1'), posting('2'), posting('3')]);
+        expect(stub.requests).toHaveLength(1);
+        await sink.close();
+
+        const batches = stub.requests.map(request => (JSON.parse(request.body) as { postings: Posting[] }).postings.map(sent => sent.arbeitsagentur_id));
+        expect(batches).toEqual([['1', '2'], ['3']]);
+        expect(stub.requests[0]).toMatchObject({ method: 'POST', url: '/hooks/leads' });
+        expect(stub.requests[0].headers['content-type']).toBe('application/json');
+        expect(stub.requests[0].headers[SIGNATURE_HEADER.toLowerCase()]).toBeUndefined();
+    });
+
+    it('signs the body with the secret', async () => {
+        stub = await startHttpStub((_, response) => sendJsonResponse(response, 200, { ok: true }));
+        const sink = webhookSink({ url: stub.url, secret: 'geheim' });
+        await sink.write([posting('1')]);
+        await sink.close();
+
+        const [request] = stub.requests;
+        expect(request.headers[SIGNATURE_HEADER.toLowerCase()]).toBe(signPayload(request.body, 'geheim'));
+        expect(signPayload(request.body, 'geheim')).toMatch(/^sha256=[0-9a-f]{64}$/);
+        expect(signPayload(request.body, 'anders')).not.toBe(signPayload(request.body, 'geheim'));
+    });
+
+    it('sends an empty run nothing', async () => {
+        stub = await startHttpStub((_, response) => sendJsonResponse(response, 200, { ok: true }));
+        const sink = webhookSink({ url: stub.url });
+        await sink.close();
+        expect(stub.requests).toHaveLength(0);
+    });
+});
+
+describe('upsertSink', () => {
+    it('sends every posting to the url of its key', async () => {
+        stub = await startHttpStub((_, response) => sendJsonResponse(response, 204, null));
+        const sink = upsertSink({ urlTemplate: `${stub.url}/api/leads/{key}`, headers: { Authorization: 'Bearer token' } });
+        await sink.write([posting('10000-1198765432-S'), posting('a/b c')]);
+        await sink.close();
+
+        expect(stub.requests.map(request => `${request.method} ${request.url}`)).toEqual([
+            'PUT /api/leads/10000-1198765432-S',
+            'PUT /api/leads/a%2Fb%20c',
+        ]);
+        expect(stub.requests[0].headers.authorization).toBe('Bearer token');
+        expect(JSON.parse(stub.requests[0].body)).toMatchObject({ arbeitsagentur_id: '10000-1198765432-S', company_name: 'Elektro Krause GmbH' });
+    });
+
+    it('keys by another field and skips postings without a key', async () => {
+        stub = await startHttpStub((_, response) => sendJsonResponse(response, 200, {}));
+        const sink = upsertSink({ urlTemplate: `${stub.url}/leads?email={key}`, method: 'PATCH', keyField: 'email' });
+        await sink.write([posting('1', { email: null }), posting('2', { email: 'info@vogel-haustechnik.de' })]);
+
+        expect(stub.requests.map(request => `${request.method} ${request.url}`)).toEqual(['PATCH /leads?email=info%40vogel-haustechnik.de']);
+    });
+});
+
+describe('fileExportSink', () => {
+    it('saves all postings of the run as CSV and XLSX on close', async () => {
+        const saved: { key: string; content: unknown; contentType?: string }[] = [];
+        const sink = fileExportSink({ formats: ['csv', 'xlsx'], fileName: 'leads' }, {
+            async saveFile(key, content, contentType) {
+                saved.push({ key, content, contentType });
+            },
+        });
+        await sink.write([posting('1')]);
+        await sink.write([posting('2', { company_name: 'Haustechnik Vogel e.K.', postal_code: null })]);
+        expect(saved).toHaveLength(0);
+        await sink.close();
+
+        expect(saved.map(file => [file.key, file.contentType])).toEqual([
+            ['leads.csv', 'text/csv; charset=utf-8'],
+            ['leads.xlsx', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'],
+        ]);
+        const lines = String(saved[0].content).split('\r\n');
+        expect(lines).toHaveLength(4);
+        expect(lines[0].startsWith('\uFEFFLead-Score;Firma;')).toBe(true);
+        expect(lines[1]).toContain(';Elektro Krause GmbH;');
+        // postal codes keep their leading zero
+        expect(lines[1]).toContain(';04107;Leipzig;');
+        expect(lines[2]).toContain(';Haustechnik Vogel e.K.;');
+        expect(Buffer.isBuffer(saved[1].content)).toBe(true);
+    });
+});
+
+describe('rowsToCsv', () => {
+    it('quotes cells with separators, quotes and line breaks', () => {
+        expect(rowsToCsv([['a;b', 'Sag "Hallo"', 'Zeile 1\nZeile 2', 42, null]]))
+            .toBe('\uFEFF"a;b";"Sag ""Hallo""";"Zeile 1\nZeile 2";42;\r\n');
+    });
+});
+
+describe('exportPostings as XLSX', () => {
+    it('writes a valid archive with the postings in one sheet', () => {
+        const files = readZip(exportPostings([posting('1', { raw_job_title: 'Elektroniker <Gebäudetechnik> & Service\u0007' })], 'xlsx') as Buffer);
+        expect([...files.keys()]).toEqual(['[Content_Types].xml', '_rels/.rels', 'xl/workbook.xml', 'xl/_rels/workbook.xml.rels', 'xl/worksheets/sheet1.xml']);
+        expect(files.get('xl/workbook.xml')).toContain('<sheet name="Stellenangebote"');
+
+        const sheet = files.get('xl/worksheets/sheet1.xml')!;
+        expect(sheet).toContain('<t xml:space="preserve">Elektroniker &lt;Gebäudetechnik&gt; &amp; Service</t>');
+        expect(sheet).toContain('<c r="R2"><v>51</v></c>');
+        expect(sheet).not.toContain('\u0007');
+    });
+});
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+
+import { CompanyStore } from '../src/company-store.js';
+import { postingStub } from '../src/failed-postings.js';
+import type { Posting } from '../src/posting.js';
+import { PostingHistory } from '../src/posting-history.js';
+import { SeenStore } from '../src/seen-store.js';
+import type { JsonStorage } from '../src/storage.js';
+
+// a storage in memory that counts its writes
+function memoryStorage() {
+    const values = new Map<string, unknown>();
+    let writes = 0;
+    const storage: JsonStorage = {
+        getValue: async <T>(key: string) => (values.get(key) ?? null) as T | null,
+        setValue: async (key, value) => {
+            writes++;
+            values.set(key, JSON.parse(JSON.stringify(value)));
+        },
+    };
+    return { storage, writes: () => writes };
+}
+
+function posting(id: string): Posting {
+    return { ...postingStub(id), company_name: 'Elektro Krause GmbH', postal_code: 4107, city: 'Leipzig' };
+}
+
+const MARCH = new Date('2026-03-01T06:00:00.000Z');
+const OCTOBER = new Date('2026-10-01T06:00:00.000Z');
+const CUTOFF = new Date('2026-06-01T00:00:00.000Z');
+
+describe('SeenStore', () => {
+    it('forgets postings last seen before the cutoff', async () => {
+        const { storage } = memoryStorage();
+        const store = await SeenStore.open(storage);
+        store.sight('10000-1198765432-S', MARCH);
+        store.sight('12265-448811220-S', MARCH);
+        store.sight('12265-448811220-S', OCTOBER);
+
+        expect(store.prune(CUTOFF)).toBe(1);
+        expect(store.has('10000-1198765432-S')).toBe(false);
+        expect(store.sight('12265-448811220-S', OCTOBER).first_seen).toBe(MARCH.toISOString());
+    });
+
+    it('writes only when something changed', async () => {
+        const { storage, writes } = memoryStorage();
+        const store = await SeenStore.open(storage);
+        await store.persist();
+        expect(writes()).toBe(0);
+        store.sight('10000-1198765432-S', OCTOBER);
+        await store.persist();
+        await store.persist();
+        expect(writes()).toBe(1);
+
+        const reopened = await SeenStore.open(storage);
+        expect(reopened.prune(CUTOFF)).toBe(0);
+        await reopened.persist();
+        expect(writes()).toBe(1);
+    });
+});
+
+describe('CompanyStore', () => {
+    it('forgets employers without a posting since the cutoff', async () => {
+        const { storage, writes } = memoryStorage();
+        const store = await CompanyStore.open(storage);
+        store.addPostings([posting('10000-1198765432-S')], MARCH);
+        store.addPostings([{ ...posting('12265-448811220-S'), company_name: 'Haustechnik Vogel e.K.' }], OCTOBER);
+        await store.persist();
+
+        const reopened = await CompanyStore.open(storage);
+        expect(reopened.prune(CUTOFF)).toBe(1);
+        await reopened.persist();
+        expect(writes()).toBe(2);
+        expect((await CompanyStore.open(storage)).size).toBe(1);
+    });
+});
+
+describe('PostingHistory', () => {
+    it('forgets postings neither listed nor re-checked since the cutoff', async () => {
+        const { storage } = memoryStorage();
+        const history = await PostingHistory.open(storage);
+        history.record([posting('10000-1198765432-S'), posting('12265-448811220-S'), posting('10000-1198765433-S')], null, MARCH);
+        history.markDisappeared('10000-1198765432-S', true, MARCH);
+        history.markStillOnline('12265-448811220-S', OCTOBER);
+
+        expect(history.prune(CUTOFF)).toBe(2);
+        expect(history.size).toBe(1);
+        // a forgotten posting is new when it is listed again
+        expect(history.record([posting('10000-1198765433-S')], null, OCTOBER).map(event => event.event)).toEqual(['new']);
+    });
+
+    it('writes only when something changed', async () => {
+        const { storage, writes } = memoryStorage();
+        const history = await PostingHistory.open(storage);
+        history.record([], null, OCTOBER);
+        history.markStillOnline('10000-1198765432-S', OCTOBER);
+        await history.persist();
+        expect(writes()).toBe(0);
+        history.record([posting('10000-1198765432-S')], null, OCTOBER);
+        await history.persist();
+        expect(writes()).toBe(1);
+    });
+});
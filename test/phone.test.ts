@@ -0,0 +1,49 @@
+import { describe, expect, it } from 'vitest';
+
+import { normalizePhoneNumber } from '../src/misc/phone.js';
+
+describe('normalizePhoneNumber', () => {
+    it.each([
+        ['0341 2345678', '+493412345678', 'landline'],
+        ['(0341) 23 45 67-8', '+493412345678', 'landline'],
+        ['+49 (0) 30 1234567', '+49301234567', 'landline'],
+        ['0049 89 12345678', '+498912345678', 'landline'],
+        ['0171 1234567', '+491711234567', 'mobile'],
+        ['0800 1234567', '+498001234567', 'special'],
+    ] as const)('normalizes %s', (text, e164, lineType) => {
+        expect(normalizePhoneNumber(text)).toMatchObject({ e164, country: 'DE', line_type: lineType, original: text });
+    });
+
+    it.each([
+        ['0171 123-4567', '+491711234567'],
+        ['0171-1234567', '+491711234567'],
+        ['0152 2345-6789', '+4915223456789'],
+        ['+49 160 123-45678', '+4916012345678'],
+    ])('reads the mobile number %s with a dash as one number', (text, e164) => {
+        expect(normalizePhoneNumber(text)).toMatchObject({ e164, line_type: 'mobile', extension: null });
+    });
+
+    it.each([
+        ['030 123456-78', '+493012345678', '78'],
+        ['0341 98765-0', '+49341987650', '0'],
+        ['0341 987654, Durchwahl 12', '+4934198765412', '12'],
+        ['0341 987654 App. 205', '+49341987654205', '205'],
+    ])('splits the extension off %s', (text, e164, extension) => {
+        expect(normalizePhoneNumber(text)).toMatchObject({ e164, extension });
+    });
+
+    it('keeps an area code separated by a dash', () => {
+        expect(normalizePhoneNumber('030-123456')).toMatchObject({ e164: '+4930123456', extension: null });
+    });
+
+    it.each([
+        ['+43 1 5123456', '+4315123456', 'AT'],
+        ['0041 44 123 45 67', '+41441234567', 'CH'],
+    ])('normalizes the foreign number %s', (text, e164, country) => {
+        expect(normalizePhoneNumber(text)).toMatchObject({ e164, country, line_type: 'unknown' });
+    });
+
+    it.each(['01.05.2024', '04109', '0171 123', '0123 456789', '+1 555 1234567', 'Tel. folgt', '', null])('rejects %j', text => {
+        expect(normalizePhoneNumber(text)).toBeNull();
+    });
+});
@@ -0,0 +1,116 @@
+import path from 'node:path';
+
+import { beforeAll, describe, expect, it } from 'vitest';
+
+import { postingStub } from '../src/failed-postings.js';
+import { createAreaFilter, distanceKm, PostalCodeDirectory } from '../src/postal-code-directory.js';
+import type { Posting } from '../src/posting.js';
+
+// a few places in the format of src/data/postal-codes.json, two towns share the name Neustadt, Lindenau has no coordinates
+const DATA_PATH = path.join(import.meta.dirname, 'fixtures', 'postal-codes', 'postal-codes.json');
+
+let directory: PostalCodeDirectory;
+
+beforeAll(async () => {
+    directory = await PostalCodeDirectory.load(DATA_PATH);
+});
+
+function posting(postalCode: number | null, city: string): Posting {
+    return { ...postingStub('10000-1198765432-S'), postal_code: postalCode, city };
+}
+
+describe('distanceKm', () => {
+    it('measures the great circle distance', () => {
+        expect(distanceKm({ latitude: 53.5511, longitude: 9.9937 }, { latitude: 51.3397, longitude: 12.3731 })).toBeCloseTo(294, 0);
+        expect(distanceKm({ latitude: 51.3397, longitude: 12.3731 }, { latitude: 51.3397, longitude: 12.3731 })).toBe(0);
+    });
+});
+
+describe('PostalCodeDirectory', () => {
+    it('looks up postal codes with or without their leading zero', () => {
+        expect(directory.size).toBe(11);
+        expect(directory.has(4107)).toBe(true);
+        expect(directory.has('04107')).toBe(true);
+        expect(directory.locate(4416)).toEqual({ latitude: 51.2775, longitude: 12.3683 });
+        expect(directory.locate(1945)).toBeNull();
+        expect(directory.has(99999)).toBe(false);
+    });
+
+    it('confirms a postal code of the city', () => {
+        expect(directory.resolve(4107, 'Leipzig')).toEqual({
+            postal_code: 4107,
+            postal_code_status: 'valid',
+            state: 'Sachsen',
+            district_key: '14713',
+            latitude: 51.3397,
+            longitude: 12.3731,
+        });
+    });
+
+    it.each([
+        [22765, 'Hamburg Altona'],
+        [6110, 'Halle, Saale'],
+        [6110, 'Halle (Saale)'],
+        [4107, 'Leipzig-Gohlis'],
+        // a city the directory does not know cannot contradict the postal code
+        [4107, 'Irgendwo'],
+    ])('confirms %i for the city written as %s', (postalCode, city) => {
+        expect(directory.resolve(postalCode, city).postal_code_status).toBe('valid');
+    });
+
+    it.each([
+        [4999, 'Markkleeberg'],
+        [null, 'Markkleeberg'],
+        [4107, 'Markkleeberg'],
+    ])('corrects %s to the only postal code of the city', (postalCode, city) => {
+        expect(directory.resolve(postalCode, city)).toMatchObject({ postal_code: 4416, postal_code_status: 'corrected', state: 'Sachsen' });
+    });
+
+    it('writes Sankt the way the directory does', () => {
+        expect(directory.resolve(null, 'St. Ingbert')).toMatchObject({ postal_code: 66386, postal_code_status: 'corrected', state: 'Saarland' });
+    });
+
+    it('keeps a postal code of another place and locates the posting by its city', () => {
+        expect(directory.resolve(6108, 'Leipzig')).toMatchObject({ postal_code: 6108, postal_code_status: 'mismatch', state: 'Sachsen', latitude: 51.3397 });
+    });
+
+    it('does not guess between towns of the same name', () => {
+        expect(directory.resolve(null, 'Neustadt')).toEqual({
+            postal_code: null,
+            postal_code_status: 'unknown',
+            state: null,
+            district_key: null,
+            latitude: null,
+            longitude: null,
+        });
+    });
+
+    it('geocodes postings in place', () => {
+        const postings = [posting(4107, 'Leipzig'), posting(null, 'Markkleeberg')];
+        directory.geocodePostings(postings);
+        expect(postings[0]).toMatchObject({ postal_code: 4107, postal_code_status: 'valid', state: 'Sachsen' });
+        expect(postings[1]).toMatchObject({ postal_code: 4416, postal_code_status: 'corrected', state: 'Sachsen' });
+    });
+});
+
+describe('createAreaFilter', () => {
+    it('keeps postings within the distance and notes how far they are', () => {
+        const nearLeipzig = createAreaFilter(directory, '04107', 20);
+        const markkleeberg = posting(4416, 'Markkleeberg');
+        const halle = posting(6108, 'Halle (Saale)');
+        expect(nearLeipzig(markkleeberg)).toBe(true);
+        expect(markkleeberg.distance_km).toBe(6.9);
+        expect(nearLeipzig(halle)).toBe(false);
+        expect(halle.distance_km).toBe(32.2);
+    });
+
+    it('keeps postings that cannot be placed', () => {
+        const nearLeipzig = createAreaFilter(directory, '04107', 20);
+        expect(nearLeipzig(posting(null, 'Neustadt'))).toBe(true);
+        expect(nearLeipzig(posting(1945, 'Lindenau'))).toBe(true);
+    });
+
+    it('needs a center it can locate', () => {
+        expect(() => createAreaFilter(directory, '99999', 20)).toThrow('Postal code 99999 is not in the postal code directory or has no coordinates');
+    });
+});
@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+
+import type { Posting } from '../src/posting.js';
+import { PostingHistory } from '../src/posting-history.js';
+import type { JsonStorage } from '../src/storage.js';
+
+const SEARCH_URL = 'https://www.arbeitsagentur.de/jobsuche/suche?angebotsart=1&was=Elektroniker&wo=Leipzig';
+const OTHER_SEARCH_URL = 'https://www.arbeitsagentur.de/jobsuche/suche?angebotsart=1&was=Maler&wo=Leipzig';
+const FIRST_RUN = new Date('2026-10-01T06:00:00.000Z');
+const SECOND_RUN = new Date('2026-10-08T06:00:00.000Z');
+
+function posting(id: string, fields: Partial<Posting> = {}): Posting {
+    return {
+        company_name: 'Elektro Krause GmbH',
+        city: 'Leipzig',
+        arbeitsagentur_id: id,
+        start_date: '01.11.2026',
+        post_date: null,
+        raw_job_title: 'Elektroniker (m/w/d)',
+        postal_code: 4107,
+        street: 'Karl-Liebknecht-Straße 12',
+        email: 'bewerbung@elektro-krause.de',
+        phone: '+493419876540',
+        website: null,
+        company_size: 51,
+        enrichment_status: 'ok',
+        ...fields,
+    };
+}
+
+// keeps the persisted history in memory, for a later run to open
+function memoryStorage(): JsonStorage {
+    const values = new Map<string, unknown>();
+    return {
+        getValue: async <T>(key: string) => (values.get(key) ?? null) as T | null,
+        setValue: async (key, value) => {
+            values.set(key, value);
+        },
+    };
+}
+
+async function openHistory(storage = memoryStorage()) {
+    return PostingHistory.open(storage);
+}
+
+describe('PostingHistory', () => {
+    it('reports unknown postings as new', async () => {
+        const history = await openHistory();
+        expect(history.record([posting('10000-1198765432-S')], SEARCH_URL, FIRST_RUN)).toEqual([{
+            event: 'new',
+            arbeitsagentur_id: '10000-1198765432-S',
+            company_name: 'Elektro Krause GmbH',
+            raw_job_title: 'Elektroniker (m/w/d)',
+            search_url: SEARCH_URL,
+            changes: null,
+            confirmed: null,
+            time: FIRST_RUN.toISOString(),
+        }]);
+    });
+
+    it('reports the changed fields of a known posting', async () => {
+        const history = await openHistory();
+        history.record([posting('10000-1198765432-S')], SEARCH_URL, FIRST_RUN);
+        const events = history.record([posting('10000-1198765432-S', { email: 'jobs@elektro-krause.de', raw_job_title: ' Elektroniker (m/w/d) ' })], SEARCH_URL, SECOND_RUN);
+        // the title is the same once trimmed
+        expect(events).toHaveLength(1);
+        expect(events[0]).toMatchObject({ event: 'updated', changes: { email: { old: 'bewerbung@elektro-krause.de', new: 'jobs@elektro-krause.de' } } });
+        // a sighting without changes is no event
+        expect(history.record([posting('10000-1198765432-S', { email: 'jobs@elektro-krause.de' })], SEARCH_URL, SECOND_RUN)).toEqual([]);
+    });
+
+    it('compares only the result list fields of a posting whose detail page failed', async () => {
+        const history = await openHistory();
+        history.record([posting('10000-1198765432-S')], SEARCH_URL, FIRST_RUN);
+        const failed = posting('10000-1198765432-S', { enrichment_status: 'failed', email: null, phone: null, street: null, start_date: '15.11.2026' });
+        const events = history.record([failed], SEARCH_URL, SECOND_RUN);
+        expect(events.map(event => event.changes)).toEqual([{ start_date: { old: '01.11.2026', new: '15.11.2026' } }]);
+    });
+
+    it('tells the active postings of fully read searches that no result list showed', async () => {
+        const storage = memoryStorage();
+        const history = await openHistory(storage);
+        history.record([posting('10000-1198765432-S'), posting('10000-1198765433-S')], SEARCH_URL, FIRST_RUN);
+        history.record([posting('12265-448811220-S')], OTHER_SEARCH_URL, FIRST_RUN);
+        history.record([posting('12265-448811221-S')], null, FIRST_RUN);
+        await history.persist();
+
+        const nextRun = await openHistory(storage);
+        nextRun.markListed(['10000-1198765433-S']);
+        expect(nextRun.missingIds([SEARCH_URL])).toEqual(['10000-1198765432-S']);
+        expect(nextRun.missingIds([SEARCH_URL, OTHER_SEARCH_URL])).toEqual(['10000-1198765432-S', '12265-448811220-S']);
+    });
+
+    it('reports a delisted posting once and its return as a status change', async () => {
+        const history = await openHistory();
+        history.record([posting('10000-1198765432-S')], SEARCH_URL, FIRST_RUN);
+
+        expect(history.markDisappeared('10000-1198765432-S', true, SECOND_RUN)).toMatchObject({
+            event: 'disappeared',
+            company_name: 'Elektro Krause GmbH',
+            search_url: SEARCH_URL,
+            confirmed: true,
+            time: SECOND_RUN.toISOString(),
+        });
+        expect(history.markDisappeared('10000-1198765432-S', true, SECOND_RUN)).toBeNull();
+        expect(history.missingIds([SEARCH_URL])).toEqual([]);
+
+        const [event] = history.record([posting('10000-1198765432-S')], SEARCH_URL, SECOND_RUN);
+        expect(event).toMatchObject({ event: 'updated', changes: { status: { old: 'disappeared', new: 'active' } } });
+    });
+});
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+
+import { postingFromCard, ResultListReader } from '../src/result-list-reader.js';
+import { DomPage } from './dom-page.js';
+
+const SEARCH_PAGE = 'www_arbeitsagentur_de_jobsuche_suche_44b5de04cb.html';
+
+describe('ResultListReader', () => {
+    it('reads all cards of a page in list order', async () => {
+        const reader = new ResultListReader(await DomPage.open(SEARCH_PAGE));
+        const cards = await reader.readNewCards();
+        expect(cards.map(card => card.arbeitsagentur_id)).toEqual(['10000-1198765432-S', '12265-448811220-S']);
+    });
+
+    it('reads every card only once', async () => {
+        const reader = new ResultListReader(await DomPage.open(SEARCH_PAGE));
+        await reader.readNewCards();
+        expect(await reader.readNewCards()).toEqual([]);
+    });
+
+    it('notices the end of the list when no new card appears', async () => {
+        const page = await DomPage.open(SEARCH_PAGE);
+        const reader = new ResultListReader(page);
+        await reader.readNewCards();
+        expect(page.document.getElementById('ergebnisliste-ladeweitere-button')).toBeNull();
+        expect(await reader.waitForNewCards(100)).toBe(false);
+    });
+
+    it('tracks cards by posting id when the list renders again with other positions', async () => {
+        const page = await DomPage.open(SEARCH_PAGE);
+        const reader = new ResultListReader(page);
+        await reader.readNewCards();
+        const list = page.document.querySelector('.ergebnisliste')!;
+        const waiting = reader.waitForNewCards(1000);
+        // "weitere laden" rendered the second posting again at position 0 and a new one at position 1
+        list.innerHTML = `
+            <li><a id="ergebnisliste-item-0" href="/jobsuche/jobdetail/12265-448811220-S"><div id="eintrag-0-firma">Haustechnik Vogel e.K.</div></a></li>
+            <li><a id="ergebnisliste-item-1" href="/jobsuche/jobdetail/10001-1000234567-S"><div id="eintrag-1-firma">Stadtwerke Leipzig GmbH</div></a></li>`;
+        expect(await waiting).toBe(true);
+        expect((await reader.readNewCards()).map(card => card.arbeitsagentur_id)).toEqual(['10001-1000234567-S']);
+        expect(list.children).toHaveLength(2);
+    });
+});
+
+describe('postingFromCard', () => {
+    it('strips the labels and parses the publication date', async () => {
+        const [card] = await new ResultListReader(await DomPage.open(SEARCH_PAGE)).readNewCards();
+        expect(postingFromCard(card)).toMatchObject({
+            arbeitsagentur_id: '10000-1198765432-S',
+            company_name: 'Elektro Krause GmbH',
+            city: 'Leipzig',
+            raw_job_title: 'Elektroniker/in - Energie- und Gebäudetechnik (m/w/d)',
+            start_date: 'ab sofort',
+            post_date: new Date(2026, 9, 7).toISOString(),
+        });
+    });
+
+    it('leaves missing start and publication dates empty', async () => {
+        const [, card] = await new ResultListReader(await DomPage.open(SEARCH_PAGE)).readNewCards();
+        expect(postingFromCard(card)).toMatchObject({ company_name: 'Haustechnik Vogel e.K.', city: 'Markkleeberg', start_date: null, post_date: null });
+    });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+
+import { isAllowedByRobots } from '../src/misc/robots.js';
+
+const ROBOTS_TXT = `# robots.txt der Elektro Krause GmbH
+User-agent: *
+Disallow: /karriere
+Disallow: /intern/
+Allow: /intern/kontakt
+Disallow: /*.pdf$
+
+User-agent: BadBot
+User-agent: OtherBot
+Disallow: /
+`;
+
+describe('isAllowedByRobots', () => {
+    it.each([
+        ['/', true],
+        ['/impressum', true],
+        ['/karriere', false],
+        ['/karriere/elektroniker', false],
+        ['/intern/', false],
+        // the longer allow rule wins
+        ['/intern/kontakt', true],
+        ['/downloads/datenschutz.pdf', false],
+        ['/downloads/datenschutz.pdf?v=2', true],
+    ])('decides %s for every crawler', (path, allowed) => {
+        expect(isAllowedByRobots(ROBOTS_TXT, path)).toBe(allowed);
+    });
+
+    it('applies the group of a named crawler instead of the general one', () => {
+        expect(isAllowedByRobots(ROBOTS_TXT, '/impressum', 'Mozilla/5.0 (compatible; OtherBot/1.0)')).toBe(false);
+        expect(isAllowedByRobots(ROBOTS_TXT, '/karriere', 'Mozilla/5.0 (compatible; GoodBot/1.0)')).toBe(false);
+    });
+
+    it('lets allow win over disallow on a tie', () => {
+        expect(isAllowedByRobots('User-agent: *\nDisallow: /kontakt\nAllow: /kontakt', '/kontakt')).toBe(true);
+    });
+
+    it('allows everything without matching rules', () => {
+        expect(isAllowedByRobots('', '/karriere')).toBe(true);
+        expect(isAllowedByRobots('User-agent: *\nDisallow:', '/karriere')).toBe(true);
+        expect(isAllowedByRobots('User-agent: BadBot\nDisallow: /', '/karriere')).toBe(true);
+    });
+});
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+
+import { estimateCoverage, planSearches, splitSearch } from '../src/search-splitter.js';
+import type { JobSearch } from '../src/search-url.js';
+import { buildSearchUrl, parseSearchUrl } from '../src/search-url.js';
+
+const NATIONWIDE: JobSearch = { offerType: 'arbeit', location: 'Deutschland', workingTime: ['vz', 'tz'], industries: [9, 11] };
+
+// result counts keyed by location, single industry and single working time, every search not listed has `fallback` results
+function counter(counts: Record<string, number | null>, fallback: number | null) {
+    const counted: string[] = [];
+    const countResults = async (url: string) => {
+        counted.push(url);
+        const { search } = parseSearchUrl(url);
+        const key = [search.location, search.industries?.length === 1 ? search.industries[0] : null, search.workingTime?.length === 1 ? search.workingTime[0] : null]
+            .filter(part => part !== null && part !== undefined).join('|');
+        return key in counts ? counts[key] : fallback;
+    };
+    return { countResults, counted };
+}
+
+describe('splitSearch', () => {
+    it('splits a nationwide search by federal state', () => {
+        const parts = splitSearch(NATIONWIDE)!;
+        expect(parts).toHaveLength(16);
+        expect(parts[0]).toEqual({ ...NATIONWIDE, location: 'Baden-Württemberg' });
+    });
+
+    it('splits by industry, then by working time', () => {
+        expect(splitSearch({ ...NATIONWIDE, location: 'Sachsen' })?.map(search => search.industries)).toEqual([[9], [11]]);
+        expect(splitSearch({ ...NATIONWIDE, location: 'Sachsen', industries: [9] })?.map(search => search.workingTime)).toEqual([['vz'], ['tz']]);
+        // no working time means all of them
+        expect(splitSearch({ location: 'Leipzig', radiusKm: 25 })).toHaveLength(5);
+    });
+
+    it('cannot split a search narrowed in every dimension', () => {
+        expect(splitSearch({ location: 'Leipzig', radiusKm: 25, industries: [9], workingTime: ['vz'] })).toBeNull();
+    });
+});
+
+describe('planSearches', () => {
+    it('keeps a search that fits into the result list', async () => {
+        const { countResults, counted } = counter({}, 800);
+        const url = buildSearchUrl(NATIONWIDE);
+        expect(await planSearches(url, countResults, 1000)).toEqual({ total: 800, searches: [{ url, total: 800, truncated: false }] });
+        expect(counted).toEqual([url]);
+    });
+
+    it('plans no search for a search without results', async () => {
+        const { countResults } = counter({}, 0);
+        expect(await planSearches(buildSearchUrl(NATIONWIDE), countResults, 1000)).toEqual({ total: 0, searches: [] });
+    });
+
+    it('keeps a search whose results could not be counted', async () => {
+        const { countResults } = counter({}, null);
+        const url = buildSearchUrl(NATIONWIDE);
+        expect((await planSearches(url, countResults, 1000)).searches).toEqual([{ url, total: null, truncated: false }]);
+    });
+
+    it('splits until every part fits and leaves out parts without results', async () => {
+        const { countResults } = counter({ 'Deutschland': 9000, 'Bayern': 1500, 'Bayern|9': 700, 'Bayern|11': 800, 'Bremen': 0 }, 500);
+        const { total, searches } = await planSearches(buildSearchUrl(NATIONWIDE), countResults, 1000);
+        expect(total).toBe(9000);
+        expect(searches).toHaveLength(16);
+        expect(searches.filter(search => parseSearchUrl(search.url).search.location === 'Bayern').map(search => search.total)).toEqual([700, 800]);
+        expect(searches.some(search => parseSearchUrl(search.url).search.location === 'Bremen')).toBe(false);
+        expect(searches.every(search => !search.truncated)).toBe(true);
+    });
+
+    it('marks parts that cannot be split any further as truncated', async () => {
+        const search: JobSearch = { location: 'Leipzig', radiusKm: 25, industries: [9], workingTime: ['vz', 'tz'] };
+        const { countResults } = counter({ 'Leipzig|9': 2500, 'Leipzig|9|vz': 1800, 'Leipzig|9|tz': 700 }, 0);
+        const { searches } = await planSearches(buildSearchUrl(search), countResults, 1000);
+        expect(searches.map(({ total, truncated }) => ({ total, truncated }))).toEqual([
+            { total: 1800, truncated: true },
+            { total: 700, truncated: false },
+        ]);
+    });
+
+    it('does not split a url with parameters it would lose', async () => {
+        const url = `${buildSearchUrl(NATIONWIDE)}&befristung=1`;
+        const { countResults, counted } = counter({}, 5000);
+        expect((await planSearches(url, countResults, 1000)).searches).toEqual([{ url, total: 5000, truncated: true }]);
+        expect(counted).toHaveLength(1);
+    });
+});
+
+describe('estimateCoverage', () => {
+    it('adds up what the planned searches can page through', () => {
+        const planned = [
+            { url: 'a', total: 1800, truncated: true },
+            { url: 'b', total: 700, truncated: false },
+            { url: 'c', total: null, truncated: false },
+        ];
+        expect(estimateCoverage(2500, planned, 1000)).toBeCloseTo(0.68);
+    });
+
+    it('is complete for an unknown total and at most complete for overlapping parts', () => {
+        expect(estimateCoverage(null, [], 1000)).toBe(1);
+        expect(estimateCoverage(1200, [{ url: 'a', total: 800, truncated: false }, { url: 'b', total: 800, truncated: false }], 1000)).toBe(1);
+    });
+});
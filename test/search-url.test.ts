@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+
+import type { JobSearch } from '../src/search-url.js';
+import { buildSearchUrl, DEFAULT_SEARCH, parseSearchUrl, validateSearch } from '../src/search-url.js';
+
+describe('buildSearchUrl', () => {
+    it('builds the url the web app uses', () => {
+        expect(buildSearchUrl({ offerType: 'arbeit', keywords: 'Elektroniker', location: 'Leipzig', radiusKm: 25, workingTime: ['vz', 'tz'], industries: [9, 11] }))
+            .toBe('https://www.arbeitsagentur.de/jobsuche/suche?angebotsart=1&was=Elektroniker&wo=Leipzig&umkreis=25&arbeitszeit=vz;tz&branche=9;11');
+    });
+
+    it('encodes keywords and location but keeps the list separators', () => {
+        expect(buildSearchUrl({ keywords: 'Maler & Lackierer', location: 'Halle (Saale)', workingTime: ['snw'] }))
+            .toBe('https://www.arbeitsagentur.de/jobsuche/suche?was=Maler%20%26%20Lackierer&wo=Halle%20(Saale)&arbeitszeit=snw');
+    });
+
+    it('throws on an invalid search', () => {
+        expect(() => buildSearchUrl({ radiusKm: 30 })).toThrow('radiusKm requires a location; radiusKm must be one of 0, 10, 15, 20, 25, 50, 100, 200, got 30');
+    });
+});
+
+describe('parseSearchUrl', () => {
+    it.each<[string, JobSearch]>([
+        ['the default search', DEFAULT_SEARCH],
+        ['a local search', { offerType: 'ausbildung', keywords: 'Kaufmann/-frau für Büromanagement', location: 'Frankfurt am Main', radiusKm: 0, includeTemporaryAgencies: false }],
+        ['a search for internships', { offerType: 'praktikum', publishedSinceDays: 0, workingTime: ['ho', 'mj'] }],
+    ])('reads back %s', (_, search) => {
+        expect(parseSearchUrl(buildSearchUrl(search))).toEqual({ search, unknownParameters: [] });
+    });
+
+    it('reports parameters the builder does not know', () => {
+        const { search, unknownParameters } = parseSearchUrl('https://www.arbeitsagentur.de/jobsuche/suche?angebotsart=1&was=Elektroniker&sort=veroeffdatum&befristung=1');
+        expect(search).toEqual({ offerType: 'arbeit', keywords: 'Elektroniker' });
+        expect(unknownParameters).toEqual(['sort', 'befristung']);
+    });
+});
+
+describe('validateSearch', () => {
+    it('accepts the default search', () => {
+        expect(validateSearch(DEFAULT_SEARCH)).toEqual([]);
+    });
+
+    it('names every invalid field', () => {
+        const search = { offerType: 'minijob', workingTime: ['vz', 'gleitzeit'], industries: [9, 0], publishedSinceDays: 101 } as unknown as JobSearch;
+        expect(validateSearch(search)).toEqual([
+            'offerType must be one of arbeit, selbststaendigkeit, ausbildung, praktikum, got minijob',
+            'workingTime must be one of vz, tz, snw, ho, mj, got gleitzeit',
+            'industries must be positive integer branche codes, got 0',
+            'publishedSinceDays must be an integer between 0 and 100, got 101',
+        ]);
+    });
+});
@@ -0,0 +1,113 @@
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+
+import { afterEach, describe, expect, it } from 'vitest';
+
+import type { Posting } from '../src/posting.js';
+import { RunBudget } from '../src/run-budget.js';
+import { WebsiteEnricher } from '../src/website-enricher.js';
+import { browserAvailable } from './browser.js';
+import type { HttpStub } from './http-stub.js';
+import { startHttpStub } from './http-stub.js';
+
+const FIXTURE_DIRECTORY = path.join(import.meta.dirname, 'fixtures', 'websites');
+
+// serves an employer website from the fixtures, `/kontakt` is `kontakt.html`, pages without a fixture are 404
+async function startWebsiteStub() {
+    return startHttpStub(async (request, response) => {
+        const { pathname } = new URL(request.url, 'http://localhost');
+        let fileName = pathname === '/' ? 'index' : pathname.slice(1);
+        if (!path.extname(fileName)) fileName += '.html';
+        const content = await readFile(path.join(FIXTURE_DIRECTORY, fileName), 'utf8').catch(() => null);
+        if (content === null) {
+            response.writeHead(404, { 'Content-Type': 'text/html' });
+            response.end('<h1>Seite nicht gefunden</h1>');
+            return;
+        }
+        response.writeHead(200, { 'Content-Type': fileName.endsWith('.txt') ? 'text/plain' : 'text/html; charset=utf-8' });
+        response.end(content);
+    });
+}
+
+function postingWithWebsite(id: string, website: string, contact: Partial<Posting> = {}): Posting {
+    return {
+        company_name: 'Elektro Krause GmbH',
+        city: 'Leipzig',
+        arbeitsagentur_id: id,
+        start_date: null,
+        post_date: null,
+        raw_job_title: 'Elektroniker (m/w/d)',
+        postal_code: null,
+        street: null,
+        email: null,
+        phone: null,
+        website,
+        company_size: null,
+        ...contact,
+    };
+}
+
+let stub: HttpStub | undefined;
+
+afterEach(async () => {
+    await stub?.close();
+    stub = undefined;
+});
+
+describe.skipIf(!browserAvailable)('WebsiteEnricher on a local website', () => {
+    it('reads contacts and Impressum data and crawls every domain once', { timeout: 120000 }, async () => {
+        stub = await startWebsiteStub();
+        const enricher = await WebsiteEnricher.create({ parallelCrawlers: 2 });
+        const postings = [
+            postingWithWebsite('10000-1198765432-S', stub.url),
+            postingWithWebsite('10000-1198765433-S', `${stub.url}/`),
+            postingWithWebsite('10000-1198765434-S', stub.url, { email: 'bewerbung@elektro-krause.de' }),
+        ];
+        try {
+            await enricher.enrichPostings(postings);
+        } finally {
+            await enricher.close();
+        }
+
+        expect(postings[0]).toMatchObject({ email: 'info@elektro-krause.de', phone: '+493419876540' });
+        expect(postings[0].website_details).toMatchObject({
+            legal_name: 'Elektro Krause GmbH',
+            register_number: 'HRB 12345',
+            register_court: 'Leipzig',
+            managing_directors: ['Thomas Krause'],
+        });
+        // robots.txt disallows the Karriere page
+        expect(postings[0].website_details?.pages_visited.map(url => new URL(url).pathname)).toEqual(['/', '/impressum', '/kontakt']);
+        expect(postings[1].email).toBe('info@elektro-krause.de');
+        // a known email address is kept
+        expect(postings[2]).toMatchObject({ email: 'bewerbung@elektro-krause.de', phone: '+493419876540' });
+        expect(stub.requests.filter(request => request.url === '/kontakt')).toHaveLength(1);
+    });
+
+    it('leaves postings without a website or with full contact data alone', { timeout: 120000 }, async () => {
+        stub = await startWebsiteStub();
+        const enricher = await WebsiteEnricher.create({ parallelCrawlers: 1 });
+        const complete = postingWithWebsite('10000-1198765435-S', stub.url, { email: 'jobs@elektro-krause.de', phone: '+49341111111' });
+        try {
+            await enricher.enrichPostings([complete, postingWithWebsite('10000-1198765436-S', '')]);
+        } finally {
+            await enricher.close();
+        }
+        expect(complete.website_details).toBeUndefined();
+        expect(stub.requests).toHaveLength(0);
+    });
+
+    it('crawls no websites once the run budget is used up', { timeout: 120000 }, async () => {
+        stub = await startWebsiteStub();
+        const enricher = await WebsiteEnricher.create({ parallelCrawlers: 1, budget: new RunBudget({ deadline: new Date(Date.now() - 1000) }) });
+        const posting = postingWithWebsite('10000-1198765432-S', stub.url);
+        try {
+            await enricher.enrichPostings([posting]);
+        } finally {
+            await enricher.close();
+        }
+        expect(posting.website_details).toBeUndefined();
+        expect(posting.website_error).toMatch(/^Website not crawled, deadline .* reached$/);
+        expect(stub.requests).toHaveLength(0);
+    });
+});
@@ -0,0 +1,78 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { WorkerPool } from '../src/worker-pool.js';
+
+type TestWorker = {
+    id: number;
+    close(): Promise<void>;
+};
+
+function workerFactory(failures: number) {
+    let started = 0;
+    let calls = 0;
+    const create = async (): Promise<TestWorker> => {
+        calls++;
+        if (calls <= failures) throw new Error('Browser did not start');
+        started++;
+        return { id: started, close: async () => undefined };
+    };
+    return { create, attempts: () => calls };
+}
+
+afterEach(() => {
+    vi.useRealTimers();
+});
+
+describe('WorkerPool', () => {
+    it('processes every item and retries failed ones', async () => {
+        const failedOnce = new Set<number>();
+        const processed: number[] = [];
+        const pool = new WorkerPool<number, TestWorker>(workerFactory(0).create, async (_, item) => {
+            if (item % 2 === 0 && !failedOnce.has(item)) {
+                failedOnce.add(item);
+                throw new Error(`Item ${item} failed`);
+            }
+            processed.push(item);
+        }, { initialWorkers: 2 });
+        await pool.start();
+        await pool.process([1, 2, 3, 4]);
+        await pool.close();
+        expect(processed.sort()).toEqual([1, 2, 3, 4]);
+    });
+
+    it('gives up on items that fail on every attempt', async () => {
+        const givenUp: number[] = [];
+        const pool = new WorkerPool<number, TestWorker>(workerFactory(0).create, async () => {
+            throw new Error('Detail page broken');
+        }, { initialWorkers: 1, maxRetries: 1, onGiveUp: item => givenUp.push(item) });
+        await pool.start();
+        await pool.process([7]);
+        await pool.close();
+        expect(givenUp).toEqual([7]);
+    });
+
+    it('keeps working with the workers that started', async () => {
+        const factory = workerFactory(1);
+        const pool = new WorkerPool<number, TestWorker>(factory.create, async () => undefined, { initialWorkers: 2 });
+        await pool.start();
+        expect(pool.size).toBe(1);
+        await pool.process([1, 2, 3]);
+        await pool.close();
+        expect(factory.attempts()).toBe(2);
+    });
+
+    it('rejects the queued items when no worker can be started', async () => {
+        vi.useFakeTimers();
+        const factory = workerFactory(Infinity);
+        const pool = new WorkerPool<number, TestWorker>(factory.create, async () => undefined, { initialWorkers: 2 });
+        const started = expect(pool.start()).rejects.toThrow('Browser did not start');
+        const processed = expect(pool.process([1, 2])).rejects.toThrow('Browser did not start');
+        await vi.runAllTimersAsync();
+        await started;
+        await processed;
+        // both initial workers, then the last one a few more times
+        expect(factory.attempts()).toBe(5);
+        await expect(pool.process([3])).rejects.toThrow('Browser did not start');
+        await pool.close();
+    });
+});